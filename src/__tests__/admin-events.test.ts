@@ -228,3 +228,77 @@ test('pool withdraw does not create RedeemUnderlying', async () => {
   assert.equal(stats?.totalTransactions, 1n);
   assert.equal(mockDb.entities.RedeemUnderlying.getAll().length, 0);
 });
+
+test('admin events are appended to the unified governance feed', async () => {
+  const TestHelpers = loadTestHelpers();
+  let mockDb = TestHelpers.MockDb.createMockDb();
+  const eventData = createEventDataFactory();
+  const withSender = (blockNumber: number, timestamp: number, srcAddress: string) => {
+    const { mockEventData } = eventData(blockNumber, timestamp, srcAddress);
+    return {
+      mockEventData: {
+        ...mockEventData,
+        transaction: { ...mockEventData.transaction, from: ADDRESSES.poolAdmin.toUpperCase() },
+      },
+    };
+  };
+
+  const aclAdmin = TestHelpers.PoolAddressesProvider.ACLAdminUpdated.createMockEvent({
+    oldAddress: ADDRESSES.oldAdmin,
+    newAddress: ADDRESSES.newAdmin,
+    ...withSender(10, 1000, ADDRESSES.provider),
+  });
+  mockDb = await TestHelpers.PoolAddressesProvider.ACLAdminUpdated.processEvent({
+    event: aclAdmin,
+    mockDb,
+  });
+
+  const collateral = TestHelpers.PoolConfigurator.CollateralConfigurationChanged.createMockEvent({
+    asset: ADDRESSES.reserve,
+    ltv: 7500n,
+    liquidationThreshold: 8000n,
+    liquidationBonus: 10500n,
+    ...withSender(11, 1010, ADDRESSES.pool),
+  });
+  mockDb = await TestHelpers.PoolConfigurator.CollateralConfigurationChanged.processEvent({
+    event: collateral,
+    mockDb,
+  });
+
+  const paused = TestHelpers.DustToken.Paused.createMockEvent({
+    account: ADDRESSES.emergencyAdmin,
+    ...eventData(12, 1020, ADDRESSES.rewards),
+  });
+  mockDb = await TestHelpers.DustToken.Paused.processEvent({ event: paused, mockDb });
+
+  const aclAction = mockDb.entities.GovernanceAction.get(
+    `${aclAdmin.transaction.hash}-${aclAdmin.logIndex}`
+  );
+  assert.ok(aclAction);
+  assert.equal(aclAction.contract, ADDRESSES.provider);
+  assert.equal(aclAction.contractName, 'PoolAddressesProvider');
+  assert.equal(aclAction.action, 'ACLAdminUpdated');
+  assert.equal(aclAction.oldValue, ADDRESSES.oldAdmin);
+  assert.equal(aclAction.newValue, ADDRESSES.newAdmin);
+  assert.equal(aclAction.sender, ADDRESSES.poolAdmin);
+  assert.equal(aclAction.blockNumber, 10n);
+  assert.equal(aclAction.timestamp, 1000);
+
+  const collateralAction = mockDb.entities.GovernanceAction.get(
+    `${collateral.transaction.hash}-${collateral.logIndex}`
+  );
+  assert.equal(collateralAction?.target, ADDRESSES.reserve);
+  assert.equal(collateralAction?.oldValue, undefined);
+  assert.equal(
+    collateralAction?.newValue,
+    'ltv=7500,liquidationThreshold=8000,liquidationBonus=10500'
+  );
+
+  const pausedAction = mockDb.entities.GovernanceAction.get(
+    `${paused.transaction.hash}-${paused.logIndex}`
+  );
+  assert.equal(pausedAction?.contractName, 'DustToken');
+  assert.equal(pausedAction?.action, 'Paused');
+  assert.equal(pausedAction?.target, ADDRESSES.emergencyAdmin);
+  assert.equal(pausedAction?.sender, undefined);
+});
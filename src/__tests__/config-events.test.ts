@@ -22,6 +22,7 @@ import {
   VIEM_PARTIAL_ADDRESS,
   installViemMock,
 } from './viem-mock';
+import { publicClient, readInterestRateCurve } from '../helpers/viem';
 
 process.env.ENVIO_ENABLE_EXTERNAL_CALLS = 'false';
 process.env.ENVIO_ENABLE_ETH_CALLS = 'false';
@@ -49,6 +50,7 @@ const ADDRESSES = {
   emergencyAdmin: '0x0000000000000000000000000000000000009016',
   newStrategy: '0x0000000000000000000000000000000000009017',
   vaultMissing: '0x0000000000000000000000000000000000009018',
+  legacyStrategy: '0x0000000000000000000000000000000000009019',
 };
 
 const PENDLE_AUSD_PROVIDER = '0xb80397a931fcfda3ac999a3a5639c328dc72a58f';
@@ -995,6 +997,136 @@ test('pool configurator uses src address when pool mapping is missing', async ()
   assert.equal(mockDb.entities.Reserve.get(reserveId)?.pool_id, ADDRESSES.configurator);
 });
 
+test('strategy RateDataUpdate events populate the reserve rate curve and history', async () => {
+  const TestHelpers = loadTestHelpers();
+  let mockDb = TestHelpers.MockDb.createMockDb();
+  const eventData = createEventDataFactory();
+  const RAY = 10n ** 27n;
+  const reserveId = `${ADDRESSES.asset}-${ADDRESSES.configurator}`;
+
+  // RateDataUpdate carries bps; the stored curve is ray.
+  const rateDataUpdate = (strategy: string, blockNumber: number, slope1Pct: bigint) =>
+    TestHelpers.DefaultReserveInterestRateStrategyV2.RateDataUpdate.createMockEvent({
+      reserve: ADDRESSES.asset,
+      optimalUsageRatio: 9000n,
+      baseVariableBorrowRate: 0n,
+      variableRateSlope1: slope1Pct * 100n,
+      variableRateSlope2: 6000n,
+      ...eventData(blockNumber, blockNumber * 10, strategy),
+    });
+
+  // The strategy is configured in the same tx, before ReserveInitialized.
+  const initialCurve = rateDataUpdate(ADDRESSES.interestStrategy, 40, 4n);
+  mockDb = await TestHelpers.DefaultReserveInterestRateStrategyV2.RateDataUpdate.processEvent({
+    event: initialCurve,
+    mockDb,
+  });
+  const init = TestHelpers.PoolConfigurator.ReserveInitialized.createMockEvent({
+    asset: ADDRESSES.asset,
+    aToken: ADDRESSES.aToken,
+    stableDebtToken: ZERO_ADDRESS,
+    variableDebtToken: ADDRESSES.vToken,
+    interestRateStrategyAddress: ADDRESSES.interestStrategy,
+    ...eventData(40, 400, ADDRESSES.configurator),
+  });
+  mockDb = await TestHelpers.PoolConfigurator.ReserveInitialized.processEvent({
+    event: init,
+    mockDb,
+  });
+
+  let reserve = mockDb.entities.Reserve.get(reserveId);
+  assert.equal(reserve?.optimalUtilisationRate, (RAY * 90n) / 100n);
+  assert.equal(reserve?.variableRateSlope1, (RAY * 4n) / 100n);
+  assert.equal(reserve?.variableRateSlope2, (RAY * 60n) / 100n);
+
+  // The eth_call fallback reads the same curve in ray from getInterestRateData.
+  const originalRead = publicClient.readContract;
+  publicClient.readContract = (async () => ({
+    optimalUsageRatio: (RAY * 90n) / 100n,
+    baseVariableBorrowRate: 0n,
+    variableRateSlope1: (RAY * 4n) / 100n,
+    variableRateSlope2: (RAY * 60n) / 100n,
+  })) as unknown as typeof publicClient.readContract;
+  try {
+    const readCurve = await readInterestRateCurve(ADDRESSES.interestStrategy, ADDRESSES.asset, 40n);
+    assert.deepEqual(
+      {
+        optimalUtilisationRate: reserve?.optimalUtilisationRate,
+        baseVariableBorrowRate: reserve?.baseVariableBorrowRate,
+        variableRateSlope1: reserve?.variableRateSlope1,
+        variableRateSlope2: reserve?.variableRateSlope2,
+      },
+      {
+        optimalUtilisationRate: readCurve?.optimalUsageRatio,
+        baseVariableBorrowRate: readCurve?.baseVariableBorrowRate,
+        variableRateSlope1: readCurve?.variableRateSlope1,
+        variableRateSlope2: readCurve?.variableRateSlope2,
+      }
+    );
+  } finally {
+    publicClient.readContract = originalRead;
+  }
+
+  const strategyId = `${ADDRESSES.interestStrategy}-${ADDRESSES.asset}`;
+  const history = mockDb.entities.InterestRateStrategyHistoryItem.get(
+    `${initialCurve.transaction.hash}-${initialCurve.logIndex}`
+  );
+  assert.equal(history?.interestRateStrategy_id, strategyId);
+  assert.equal(history?.variableRateSlope1, (RAY * 4n) / 100n);
+
+  mockDb = await TestHelpers.DefaultReserveInterestRateStrategyV2.RateDataUpdate.processEvent({
+    event: rateDataUpdate(ADDRESSES.interestStrategy, 41, 5n),
+    mockDb,
+  });
+  assert.equal(mockDb.entities.Reserve.get(reserveId)?.variableRateSlope1, (RAY * 5n) / 100n);
+  assert.equal(
+    mockDb.entities.InterestRateStrategy.get(strategyId)?.variableRateSlope1,
+    (RAY * 5n) / 100n
+  );
+
+  mockDb = await TestHelpers.DefaultReserveInterestRateStrategyV2.RateDataUpdate.processEvent({
+    event: rateDataUpdate(ADDRESSES.newStrategy, 42, 7n),
+    mockDb,
+  });
+  // Not the reserve's strategy yet
+  assert.equal(mockDb.entities.Reserve.get(reserveId)?.variableRateSlope1, (RAY * 5n) / 100n);
+
+  mockDb = await TestHelpers.PoolConfigurator.ReserveInterestRateStrategyChanged.processEvent({
+    event: TestHelpers.PoolConfigurator.ReserveInterestRateStrategyChanged.createMockEvent({
+      asset: ADDRESSES.asset,
+      oldStrategy: ADDRESSES.interestStrategy,
+      newStrategy: ADDRESSES.newStrategy,
+      ...eventData(43, 430, ADDRESSES.configurator),
+    }),
+    mockDb,
+  });
+  reserve = mockDb.entities.Reserve.get(reserveId);
+  assert.equal(reserve?.reserveInterestRateStrategy, ADDRESSES.newStrategy);
+  assert.equal(reserve?.variableRateSlope1, (RAY * 7n) / 100n);
+
+  mockDb = await TestHelpers.DefaultReserveInterestRateStrategyV2.RateDataUpdate.processEvent({
+    event: rateDataUpdate(ADDRESSES.interestStrategy, 44, 9n),
+    mockDb,
+  });
+  assert.equal(mockDb.entities.Reserve.get(reserveId)?.variableRateSlope1, (RAY * 7n) / 100n);
+
+  // A strategy that never reported a curve clears the previous one.
+  mockDb = await TestHelpers.PoolConfigurator.ReserveInterestRateStrategyChanged.processEvent({
+    event: TestHelpers.PoolConfigurator.ReserveInterestRateStrategyChanged.createMockEvent({
+      asset: ADDRESSES.asset,
+      oldStrategy: ADDRESSES.newStrategy,
+      newStrategy: ADDRESSES.legacyStrategy,
+      ...eventData(45, 450, ADDRESSES.configurator),
+    }),
+    mockDb,
+  });
+  reserve = mockDb.entities.Reserve.get(reserveId);
+  assert.equal(reserve?.reserveInterestRateStrategy, ADDRESSES.legacyStrategy);
+  assert.equal(reserve?.optimalUtilisationRate, 0n);
+  assert.equal(reserve?.variableRateSlope1, 0n);
+  assert.equal(reserve?.variableRateSlope2, 0n);
+});
+
 test('vault creation and self-repay create summaries when missing', async () => {
   const TestHelpers = loadTestHelpers();
   let mockDb = TestHelpers.MockDb.createMockDb();
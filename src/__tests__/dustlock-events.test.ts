@@ -1,9 +1,15 @@
 import assert from 'node:assert/strict';
 import { test } from 'node:test';
 
-import { TestHelpers } from './v3-test-helpers';
+import { TestHelpers, type MockDb } from './v3-test-helpers';
 
-import { DUST_LOCK_START_BLOCK, ZERO_ADDRESS } from '../helpers/constants';
+import {
+  DUST_LOCK_START_BLOCK,
+  DUST_TOKEN_ADDRESS,
+  MAX_LOCK_TIME,
+  TREASURY_ADDRESSES,
+  ZERO_ADDRESS,
+} from '../helpers/constants';
 
 process.env.ENVIO_ENABLE_EXTERNAL_CALLS = 'false';
 process.env.ENVIO_ENABLE_ETH_CALLS = 'false';
@@ -13,6 +19,8 @@ const ADDRESSES = {
   user: '0x000000000000000000000000000000000000a002',
   userTwo: '0x000000000000000000000000000000000000a003',
   treasury: '0x000000000000000000000000000000000000a004',
+  revenueReward: '0x000000000000000000000000000000000000a005',
+  rewardToken: '0x000000000000000000000000000000000000a006',
 };
 
 function loadTestHelpers() {
@@ -34,6 +42,16 @@ function createEventDataFactory() {
   };
 }
 
+function withDustDexPrice(mockDb: MockDb, priceUsd: number, timestamp: number) {
+  return mockDb.entities.DexPrice.set({
+    id: DUST_TOKEN_ADDRESS,
+    token: DUST_TOKEN_ADDRESS,
+    pool: ZERO_ADDRESS,
+    priceUsd,
+    updatedAt: timestamp,
+  });
+}
+
 test('dust lock lifecycle events update tokens and voting power', async () => {
   const TestHelpers = loadTestHelpers();
   let mockDb = TestHelpers.MockDb.createMockDb();
@@ -316,6 +334,434 @@ test('dust lock admin events emit audit records', async () => {
   );
 });
 
+test('early withdraw penalties are booked as treasury revenue', async () => {
+  const TestHelpers = loadTestHelpers();
+  let mockDb = TestHelpers.MockDb.createMockDb();
+  const eventData = createEventDataFactory();
+  const startBlock = DUST_LOCK_START_BLOCK + 200;
+  const DUST = 10n ** 18n;
+  const day = 86400 * 5;
+
+  mockDb = withDustDexPrice(mockDb, 0.5, day);
+
+  const earlyWithdraw = (value: bigint, amountReturned: bigint, offset: number) =>
+    TestHelpers.DustLock.EarlyWithdraw.createMockEvent({
+      provider: ADDRESSES.user,
+      tokenId: 7n,
+      value,
+      amountReturned,
+      ...eventData(startBlock + offset, day + offset, ADDRESSES.dustLock),
+    });
+
+  mockDb = await TestHelpers.DustLock.EarlyWithdraw.processEvent({
+    event: earlyWithdraw(100n * DUST, 60n * DUST, 1),
+    mockDb,
+  });
+
+  const treasury = TestHelpers.DustLock.EarlyWithdrawTreasuryUpdated.createMockEvent({
+    oldTreasury: ZERO_ADDRESS,
+    newTreasury: TREASURY_ADDRESSES[0],
+    ...eventData(startBlock + 2, day + 2, ADDRESSES.dustLock),
+  });
+  mockDb = await TestHelpers.DustLock.EarlyWithdrawTreasuryUpdated.processEvent({
+    event: treasury,
+    mockDb,
+  });
+
+  mockDb = await TestHelpers.DustLock.EarlyWithdraw.processEvent({
+    event: earlyWithdraw(50n * DUST, 30n * DUST, 3),
+    mockDb,
+  });
+
+  const recipient = mockDb.entities.TreasuryRevenueRecipient.get('dustLockEarlyWithdraw');
+  assert.equal(recipient?.recipient, TREASURY_ADDRESSES[0]);
+  assert.equal(recipient?.isKnownTreasury, true);
+  assert.equal(recipient?.revenueUsd, 30);
+
+  const ledger = mockDb.entities.TreasuryRevenueDay.get('protocol-5');
+  assert.ok(ledger);
+  assert.equal(ledger.earlyWithdrawPenaltyUsd, 30);
+  // The first penalty predates any announced treasury address.
+  assert.equal(ledger.unverifiedRecipientUsd, 20);
+  assert.equal(ledger.totalUsd, 30);
+});
+
+test('lock changes maintain global veDUST checkpoints with scheduled slope changes', async () => {
+  const TestHelpers = loadTestHelpers();
+  let mockDb = TestHelpers.MockDb.createMockDb();
+  const eventData = createEventDataFactory();
+  const startBlock = DUST_LOCK_START_BLOCK + 300;
+  const WEEK = 604800;
+  // Locking MAX_LOCK_TIME wei makes VP equal to the seconds left on the lock.
+  const amount = MAX_LOCK_TIME;
+
+  const deposit = async (
+    tokenId: bigint,
+    value: bigint,
+    locktime: number,
+    block: number,
+    timestamp: number
+  ) => {
+    const event = TestHelpers.DustLock.Deposit.createMockEvent({
+      provider: ADDRESSES.user,
+      tokenId,
+      value,
+      locktime: BigInt(locktime),
+      depositType: 1n,
+      ...eventData(block, timestamp, ADDRESSES.dustLock),
+    });
+    mockDb = await TestHelpers.DustLock.Deposit.processEvent({ event, mockDb });
+    return mockDb.entities.VeDustCheckpoint.get(`${event.transaction.hash}-${event.logIndex}`);
+  };
+
+  const first = await deposit(11n, amount, 104 * WEEK, startBlock, 100 * WEEK);
+  assert.equal(first?.slope, amount);
+  assert.equal(first?.totalVotingPower, BigInt(4 * WEEK));
+
+  const permanent = await deposit(12n, 1000n, 0, startBlock + 1, 101 * WEEK);
+  assert.equal(permanent?.permanentLocked, 1000n);
+  assert.equal(permanent?.bias, BigInt(3 * WEEK));
+  assert.equal(permanent?.totalVotingPower, BigInt(3 * WEEK) + 1000n);
+
+  assert.equal(mockDb.entities.VeDustSlopeChange.get(String(104 * WEEK))?.amount, amount);
+
+  // Token 11 expired at week 104, so only the new lock decays afterwards.
+  const afterExpiry = await deposit(13n, amount, 110 * WEEK, startBlock + 2, 105 * WEEK);
+  assert.equal(afterExpiry?.slope, amount);
+  assert.equal(afterExpiry?.endWeightedLocked, amount * BigInt(110 * WEEK));
+  assert.equal(afterExpiry?.totalVotingPower, BigInt(5 * WEEK) + 1000n);
+
+  const withdraw = TestHelpers.DustLock.Withdraw.createMockEvent({
+    provider: ADDRESSES.user,
+    tokenId: 11n,
+    value: amount,
+    ...eventData(startBlock + 3, 105 * WEEK + 10, ADDRESSES.dustLock),
+  });
+  mockDb = await TestHelpers.DustLock.Withdraw.processEvent({ event: withdraw, mockDb });
+
+  const state = mockDb.entities.VeDustGlobalState.get('global');
+  assert.equal(state?.slope, amount);
+  assert.equal(state?.permanentLocked, 1000n);
+  assert.equal(state?.lastCheckpointAt, 105 * WEEK + 10);
+  assert.equal(state?.checkpointCount, 4);
+  const afterWithdraw = mockDb.entities.VeDustCheckpoint.get(
+    `${withdraw.transaction.hash}-${withdraw.logIndex}`
+  );
+  assert.equal(afterWithdraw?.totalVotingPower, BigInt(5 * WEEK - 10) + 1000n);
+});
+
+test('unlock calendar follows lock extensions, permanent locks and withdrawals', async () => {
+  const TestHelpers = loadTestHelpers();
+  let mockDb = TestHelpers.MockDb.createMockDb();
+  const eventData = createEventDataFactory();
+  const startBlock = DUST_LOCK_START_BLOCK + 500;
+  const WEEK = 604800;
+
+  const deposit = async (tokenId: bigint, value: bigint, locktime: number, offset: number) => {
+    const event = TestHelpers.DustLock.Deposit.createMockEvent({
+      provider: ADDRESSES.user,
+      tokenId,
+      value,
+      locktime: BigInt(locktime),
+      depositType: 1n,
+      ...eventData(startBlock + offset, 5 * WEEK + offset, ADDRESSES.dustLock),
+    });
+    mockDb = await TestHelpers.DustLock.Deposit.processEvent({ event, mockDb });
+  };
+  const unlockWeek = (week: number) => mockDb.entities.DustUnlockWeek.get(String(week * WEEK));
+
+  await deposit(41n, 100n, 10 * WEEK, 0);
+  await deposit(42n, 50n, 10 * WEEK, 1);
+  assert.equal(unlockWeek(10)?.lockedAmount, 150n);
+  assert.equal(unlockWeek(10)?.tokenCount, 2);
+
+  // Extending token 41 moves it to week 12.
+  await deposit(41n, 0n, 12 * WEEK, 2);
+  assert.equal(unlockWeek(10)?.lockedAmount, 50n);
+  assert.equal(unlockWeek(12)?.lockedAmount, 100n);
+  assert.equal(unlockWeek(12)?.tokenCount, 1);
+
+  const lockPermanent = TestHelpers.DustLock.LockPermanent.createMockEvent({
+    tokenId: 42n,
+    amount: 50n,
+    ...eventData(startBlock + 3, 5 * WEEK + 3, ADDRESSES.dustLock),
+  });
+  mockDb = await TestHelpers.DustLock.LockPermanent.processEvent({ event: lockPermanent, mockDb });
+  assert.equal(unlockWeek(10)?.lockedAmount, 0n);
+  assert.equal(unlockWeek(10)?.tokenCount, 0);
+
+  const unlockPermanent = TestHelpers.DustLock.UnlockPermanent.createMockEvent({
+    tokenId: 42n,
+    amount: 50n,
+    ts: BigInt(10 * WEEK),
+    ...eventData(startBlock + 4, 10 * WEEK, ADDRESSES.dustLock),
+  });
+  mockDb = await TestHelpers.DustLock.UnlockPermanent.processEvent({
+    event: unlockPermanent,
+    mockDb,
+  });
+  // Unlocking restarts a max-length lock rounded down to the week.
+  const unlockEndWeek = Math.floor((10 * WEEK + Number(MAX_LOCK_TIME)) / WEEK);
+  assert.equal(unlockWeek(unlockEndWeek)?.lockedAmount, 50n);
+  assert.equal(unlockWeek(unlockEndWeek)?.tokenCount, 1);
+
+  const withdraw = TestHelpers.DustLock.Withdraw.createMockEvent({
+    provider: ADDRESSES.user,
+    tokenId: 41n,
+    value: 100n,
+    ...eventData(startBlock + 5, 13 * WEEK, ADDRESSES.dustLock),
+  });
+  mockDb = await TestHelpers.DustLock.Withdraw.processEvent({ event: withdraw, mockDb });
+  assert.equal(unlockWeek(12)?.lockedAmount, 0n);
+  assert.equal(unlockWeek(12)?.tokenCount, 0);
+  assert.equal(unlockWeek(12)?.updatedAt, 13 * WEEK);
+});
+
+test('merges and splits record lineage edges and ancestry paths', async () => {
+  const TestHelpers = loadTestHelpers();
+  let mockDb = TestHelpers.MockDb.createMockDb();
+  const eventData = createEventDataFactory();
+  const startBlock = DUST_LOCK_START_BLOCK + 400;
+
+  mockDb = mockDb.entities.SpecialEditionTokenState.set({
+    id: '31',
+    tokenId: 31n,
+    editionBitmap: 8n,
+    editionIds: [3n],
+    updatedAt: 0,
+  });
+
+  const split = TestHelpers.DustLock.Split.createMockEvent({
+    sender: ADDRESSES.user,
+    from: 31n,
+    tokenId1: 32n,
+    tokenId2: 33n,
+    splitAmount1: 40n,
+    splitAmount2: 60n,
+    locktime: 9000n,
+    ...eventData(startBlock, 1200, ADDRESSES.dustLock),
+  });
+  mockDb = await TestHelpers.DustLock.Split.processEvent({ event: split, mockDb });
+
+  const merge = TestHelpers.DustLock.Merge.createMockEvent({
+    sender: ADDRESSES.user,
+    from: 32n,
+    to: 34n,
+    amountFrom: 40n,
+    amountTo: 10n,
+    amountFinal: 50n,
+    locktime: 9000n,
+    ...eventData(startBlock + 1, 1210, ADDRESSES.dustLock),
+  });
+  mockDb = await TestHelpers.DustLock.Merge.processEvent({ event: merge, mockDb });
+
+  const splitEdge = mockDb.entities.DustLockLineage.get(
+    `${split.transaction.hash}-${split.logIndex}-33`
+  );
+  assert.ok(splitEdge);
+  assert.equal(splitEdge.kind, 'split');
+  assert.equal(splitEdge.parentTokenId, '31');
+  assert.equal(splitEdge.parentAmount, 100n);
+  assert.equal(splitEdge.childAmount, 60n);
+  assert.deepEqual(splitEdge.parentSpecialEditionIds, [3n]);
+
+  const splitChild = mockDb.entities.DustLockAncestry.get('33');
+  assert.deepEqual(splitChild?.rootTokenIds, ['31']);
+  assert.equal(splitChild?.generation, 1);
+
+  const mergeEdge = mockDb.entities.DustLockLineage.get(
+    `${merge.transaction.hash}-${merge.logIndex}-34`
+  );
+  assert.equal(mergeEdge?.kind, 'merge');
+  assert.equal(mergeEdge?.parentTokenId, '32');
+  assert.equal(mergeEdge?.childAmount, 50n);
+
+  const merged = mockDb.entities.DustLockAncestry.get('34');
+  assert.deepEqual(merged?.parentTokenIds, ['32']);
+  assert.deepEqual(merged?.ancestorTokenIds, ['31', '32']);
+  assert.deepEqual(merged?.rootTokenIds, ['34', '31']);
+  assert.equal(merged?.generation, 2);
+});
+
+test('revenue reward epochs are shared by voting power at the epoch end', async () => {
+  const TestHelpers = loadTestHelpers();
+  let mockDb = TestHelpers.MockDb.createMockDb();
+  const eventData = createEventDataFactory();
+  const startBlock = DUST_LOCK_START_BLOCK + 700;
+  const WEEK = 604800;
+
+  const deposit = async (tokenId: bigint, value: bigint, block: number, timestamp: number) => {
+    const event = TestHelpers.DustLock.Deposit.createMockEvent({
+      provider: ADDRESSES.user,
+      tokenId,
+      value,
+      locktime: 0n,
+      depositType: 1n,
+      ...eventData(block, timestamp, ADDRESSES.dustLock),
+    });
+    mockDb = await TestHelpers.DustLock.Deposit.processEvent({ event, mockDb });
+  };
+
+  await deposit(41n, 3000n, startBlock, 100 * WEEK + 10);
+  await deposit(42n, 1000n, startBlock + 1, 100 * WEEK + 20);
+
+  const notify = TestHelpers.RevenueReward.NotifyReward.createMockEvent({
+    from: ADDRESSES.user,
+    token: ADDRESSES.rewardToken,
+    epoch: BigInt(100 * WEEK),
+    amount: 800n,
+    ...eventData(startBlock + 2, 100 * WEEK + 30, ADDRESSES.revenueReward),
+  });
+  mockDb = await TestHelpers.RevenueReward.NotifyReward.processEvent({ event: notify, mockDb });
+
+  const claim = TestHelpers.RevenueReward.ClaimRewards.createMockEvent({
+    tokenId: 41n,
+    user: ADDRESSES.user,
+    rewardToken: ADDRESSES.rewardToken,
+    amount: 500n,
+    ...eventData(startBlock + 3, 101 * WEEK + 5, ADDRESSES.revenueReward),
+  });
+  mockDb = await TestHelpers.RevenueReward.ClaimRewards.processEvent({ event: claim, mockDb });
+
+  const claimed = mockDb.entities.RevenueRewardClaimable.get(`41:${ADDRESSES.rewardToken}`);
+  assert.equal(claimed?.earned, 600n);
+  assert.equal(claimed?.claimed, 500n);
+  assert.equal(claimed?.claimable, 100n);
+  assert.equal(mockDb.entities.DustLockRevenueCursor.get('41')?.settledThrough, 101 * WEEK + 5);
+
+  // Token 42 is settled on its next lock change, against its pre-deposit amount.
+  assert.equal(
+    mockDb.entities.RevenueRewardClaimable.get(`42:${ADDRESSES.rewardToken}`),
+    undefined
+  );
+  await deposit(42n, 1000n, startBlock + 4, 101 * WEEK + 6);
+  const pending = mockDb.entities.RevenueRewardClaimable.get(`42:${ADDRESSES.rewardToken}`);
+  assert.equal(pending?.earned, 200n);
+  assert.equal(pending?.claimable, 200n);
+  assert.equal(mockDb.entities.VeDustWeekSupply.get(String(101 * WEEK))?.totalVotingPower, 4000n);
+});
+
+test('idle veNFTs are settled as revenue is notified', async () => {
+  const TestHelpers = loadTestHelpers();
+  let mockDb = TestHelpers.MockDb.createMockDb();
+  const eventData = createEventDataFactory();
+  const startBlock = DUST_LOCK_START_BLOCK + 750;
+  const WEEK = 604800;
+
+  const deposit = async (tokenId: bigint, value: bigint, block: number, timestamp: number) => {
+    const event = TestHelpers.DustLock.Deposit.createMockEvent({
+      provider: ADDRESSES.user,
+      tokenId,
+      value,
+      locktime: 0n,
+      depositType: 1n,
+      ...eventData(block, timestamp, ADDRESSES.dustLock),
+    });
+    mockDb = await TestHelpers.DustLock.Deposit.processEvent({ event, mockDb });
+  };
+  const notify = async (week: number, amount: bigint, block: number) => {
+    const event = TestHelpers.RevenueReward.NotifyReward.createMockEvent({
+      from: ADDRESSES.user,
+      token: ADDRESSES.rewardToken,
+      epoch: BigInt(week * WEEK),
+      amount,
+      ...eventData(block, week * WEEK + 30, ADDRESSES.revenueReward),
+    });
+    mockDb = await TestHelpers.RevenueReward.NotifyReward.processEvent({ event, mockDb });
+  };
+
+  await deposit(51n, 3000n, startBlock, 200 * WEEK + 10);
+  await deposit(52n, 1000n, startBlock + 1, 200 * WEEK + 20);
+  await notify(200, 400n, startBlock + 2);
+  // Token 52 is touched after epoch 200 ends, then sits idle.
+  await deposit(52n, 0n, startBlock + 3, 201 * WEEK + 1);
+  await notify(201, 800n, startBlock + 4);
+  await notify(202, 1200n, startBlock + 5);
+
+  // Each notification settles the idle token through the epochs ended so far:
+  // 1/4 of the voting power across epochs 200-201.
+  const idle = mockDb.entities.RevenueRewardClaimable.get(`52:${ADDRESSES.rewardToken}`);
+  assert.equal(idle?.earned, 300n);
+  assert.equal(idle?.claimable, 300n);
+  assert.equal(idle?.settledThrough, 202 * WEEK + 30);
+  assert.equal(
+    mockDb.entities.RevenueRewardClaimable.get(`51:${ADDRESSES.rewardToken}`)?.earned,
+    900n
+  );
+  const sweep = mockDb.entities.DustLockRevenueSweep.get('global');
+  assert.equal(sweep?.tokenCount, 2);
+  assert.equal(sweep?.lastSweepTimestamp, 202 * WEEK + 30);
+
+  const claim = TestHelpers.RevenueReward.ClaimRewards.createMockEvent({
+    tokenId: 52n,
+    user: ADDRESSES.user,
+    rewardToken: ADDRESSES.rewardToken,
+    amount: 50n,
+    ...eventData(startBlock + 6, 203 * WEEK + 5, ADDRESSES.revenueReward),
+  });
+  mockDb = await TestHelpers.RevenueReward.ClaimRewards.processEvent({ event: claim, mockDb });
+
+  // 1/4 of the voting power across epochs 200-202: 100 + 200 + 300.
+  const caughtUp = mockDb.entities.RevenueRewardClaimable.get(`52:${ADDRESSES.rewardToken}`);
+  assert.equal(caughtUp?.earned, 600n);
+  assert.equal(caughtUp?.claimed, 50n);
+  assert.equal(caughtUp?.claimable, 550n);
+  assert.equal(caughtUp?.settledThrough, 203 * WEEK + 5);
+});
+
+test('revenue notifications build a per-epoch veDUST APR snapshot', async () => {
+  const TestHelpers = loadTestHelpers();
+  let mockDb = TestHelpers.MockDb.createMockDb();
+  const eventData = createEventDataFactory();
+  const startBlock = DUST_LOCK_START_BLOCK + 800;
+  const WEEK = 604800;
+  const DUST = 10n ** 18n;
+  const epoch = 100 * WEEK;
+
+  mockDb = withDustDexPrice(mockDb, 2, epoch);
+  // 1000 DUST locked permanently plus 1000 DUST with half of MAX_LOCK_TIME left.
+  const deposits = [
+    { tokenId: 51n, locktime: 0n },
+    { tokenId: 52n, locktime: BigInt(epoch + 10) + MAX_LOCK_TIME / 2n },
+  ];
+  for (const [i, { tokenId, locktime }] of deposits.entries()) {
+    const event = TestHelpers.DustLock.Deposit.createMockEvent({
+      provider: ADDRESSES.user,
+      tokenId,
+      value: 1000n * DUST,
+      locktime,
+      depositType: 1n,
+      ...eventData(startBlock + i, epoch + 10, ADDRESSES.dustLock),
+    });
+    mockDb = await TestHelpers.DustLock.Deposit.processEvent({ event, mockDb });
+  }
+
+  for (const [i, amount] of [30n * DUST, 30n * DUST].entries()) {
+    const notify = TestHelpers.RevenueReward.NotifyReward.createMockEvent({
+      from: ADDRESSES.user,
+      token: DUST_TOKEN_ADDRESS,
+      epoch: BigInt(epoch),
+      amount,
+      ...eventData(startBlock + 2 + i, epoch + 10, ADDRESSES.revenueReward),
+    });
+    mockDb = await TestHelpers.RevenueReward.NotifyReward.processEvent({ event: notify, mockDb });
+    const notification = mockDb.entities.RevenueRewardNotification.get(
+      `${notify.transaction.hash}-${notify.logIndex}`
+    );
+    assert.equal(notification?.amountUsd, 60);
+  }
+
+  const snapshot = mockDb.entities.VeDustAprSnapshot.get(String(epoch));
+  assert.equal(snapshot?.notificationCount, 2);
+  assert.equal(snapshot?.rewardUsd, 120);
+  assert.equal(snapshot?.dustPriceUsd, 2);
+  assert.equal(snapshot?.totalLockedDust, 2000n * DUST);
+  assert.equal(snapshot?.totalVotingPower, 1500n * DUST);
+  const yearlyRewardUsd = (120 * 365) / 7;
+  assert.ok(Math.abs((snapshot?.maxLockApr ?? 0) - yearlyRewardUsd / 3000) < 1e-9);
+  assert.ok(Math.abs((snapshot?.averageLockApr ?? 0) - yearlyRewardUsd / 4000) < 1e-9);
+});
+
 test('split recalculates voting power when owner exists', async () => {
   const TestHelpers = loadTestHelpers();
   let mockDb = TestHelpers.MockDb.createMockDb();
@@ -20,6 +20,7 @@ import {
   isTreasuryAddress,
 } from '../helpers/entityHelpers';
 import {
+  bpsToRay,
   calculateCompoundedInterest,
   calculateGrowth,
   calculateLinearInterest,
@@ -27,6 +28,7 @@ import {
   exponentToBigInt,
   rayDiv,
   rayMul,
+  rayRateToApy,
   rayToWad,
   toDecimal,
   wadToRay,
@@ -51,6 +53,7 @@ import {
   publicClient,
   readActivePartnerships,
   readContract,
+  readInterestRateCurve,
   readLPBalance,
   readLPPosition,
   readLPTokenOfOwnerByIndex,
@@ -111,6 +114,7 @@ test('math helpers cover branches and conversions', () => {
 
   assert.equal(rayToWad(RAY), WAD);
   assert.equal(wadToRay(WAD), RAY);
+  assert.equal(bpsToRay(10_000n), RAY);
 
   assert.ok(calculateLinearInterest(RAY, 0n, 10n) > 0n);
   assert.equal(calculateCompoundedInterest(RAY, 100n, 100n), RAY);
@@ -124,6 +128,10 @@ test('math helpers cover branches and conversions', () => {
   assert.equal(calculateUtilizationRate(0n, 0n), 0);
   assert.equal(calculateUtilizationRate(50n, 50n), 0.5);
 
+  assert.equal(rayRateToApy(0n), 0);
+  // 5% APR compounded per second
+  assert.ok(Math.abs(rayRateToApy(RAY / 20n) - Math.expm1(0.05)) < 1e-9);
+
   assert.equal(toDecimal(123000n, 3), 123);
   assert.equal(toDecimal(123n, 0), 123);
   assert.equal(toDecimal(-456n, 0), -456);
@@ -308,6 +316,46 @@ test('viem helpers log non-error failures', async () => {
   }
 });
 
+test('readInterestRateCurve reads V2 reserve data, then V1 getters', async () => {
+  const originalRead = publicClient.readContract;
+  const curve = {
+    optimalUsageRatio: 8n,
+    baseVariableBorrowRate: 1n,
+    variableRateSlope1: 4n,
+    variableRateSlope2: 60n,
+  };
+  const v1Values: Record<string, bigint> = {
+    OPTIMAL_USAGE_RATIO: 9n,
+    getBaseVariableBorrowRate: 0n,
+    getVariableRateSlope1: 3n,
+    getVariableRateSlope2: 75n,
+  };
+  let isV2 = true;
+  let reverts = false;
+  publicClient.readContract = (async ({ functionName }: { functionName: string }) => {
+    if (reverts || (functionName === 'getInterestRateData' && !isV2)) throw new Error('revert');
+    return functionName === 'getInterestRateData' ? curve : v1Values[functionName];
+  }) as unknown as typeof publicClient.readContract;
+
+  try {
+    assert.deepEqual(await readInterestRateCurve(TEST_ADDRESS, TEST_ADDRESS, 12n), curve);
+    isV2 = false;
+    assert.deepEqual(await readInterestRateCurve(TEST_ADDRESS, TEST_ADDRESS, 12n), {
+      optimalUsageRatio: 9n,
+      baseVariableBorrowRate: 0n,
+      variableRateSlope1: 3n,
+      variableRateSlope2: 75n,
+    });
+    reverts = true;
+    const errors: string[] = [];
+    const logger = { error: (message: string) => errors.push(message) };
+    assert.equal(await readInterestRateCurve(TEST_ADDRESS, TEST_ADDRESS, undefined, logger), null);
+    assert.equal(errors.length, 1);
+  } finally {
+    publicClient.readContract = originalRead;
+  }
+});
+
 test('readPoolFee handles bigint results', async () => {
   const originalRead = publicClient.readContract;
   publicClient.readContract = async () => 3000n;
@@ -1746,6 +1746,14 @@ test('uniswap v2 transfer + sync creates and values synthetic lp position', asyn
   assert.equal(v2State?.lpTotalSupply, 1_000n);
   assert.equal(v2State?.reserve0, 1_000_000n * 10n ** 6n);
   assert.equal(v2State?.reserve1, 500_000n * 10n ** 18n);
+
+  const dustPrice = mockDb.entities.DexPrice.get(ADDRESSES.token1);
+  assert.equal(dustPrice?.pool, v2Pool);
+  assert.equal(dustPrice?.priceUsd, 2);
+  assert.equal(dustPrice?.updatedAt, 2600);
+  assert.equal(mockDb.entities.DexPrice.get(USDC_ADDRESS), undefined);
+  // Never oracle-observed, so no OracleHealth row.
+  assert.equal(mockDb.entities.OracleHealth.get(ADDRESSES.token1), undefined);
 });
 
 test('uniswap v2 swap updates fee apr stats', async () => {
@@ -1,7 +1,10 @@
 import assert from 'node:assert/strict';
 import { test } from 'node:test';
 
+import { TREASURY_ADDRESSES } from '../helpers/constants';
 import { createDefaultReserve } from '../helpers/entityHelpers';
+import { splitLiquidatedCollateral } from '../helpers/liquidations';
+import { rayRateToApy } from '../helpers/math';
 import { TestHelpers, type MockDb } from './v3-test-helpers';
 
 process.env.ENVIO_ENABLE_EXTERNAL_CALLS = 'false';
@@ -180,6 +183,64 @@ test('flashloan splits premium between protocol and LP', async () => {
   assert.equal(flashEntity?.lpFee, 50n * UNIT);
 });
 
+test('flashloans roll up by initiator, target and reserve day', async () => {
+  const TestHelpers = loadTestHelpers();
+  let mockDb: MockDb = TestHelpers.MockDb.createMockDb();
+  const eventData = createEventDataFactory();
+
+  mockDb = mockDb.entities.Protocol.set({ id: '1' });
+  mockDb = seedPool(mockDb, ADDRESSES.pool, 1000, 2000n);
+  mockDb = seedReserve(mockDb, ADDRESSES.collateral, ADDRESSES.pool, 1000, {
+    totalATokenSupply: 1000n * UNIT,
+    totalLiquidity: 1000n * UNIT,
+    availableLiquidity: 1000n * UNIT,
+  });
+  mockDb = setAssetPrice(mockDb, ADDRESSES.collateral, 2, 1000);
+
+  for (const [amount, premium, block, timestamp] of [
+    [500n * UNIT, 10n * UNIT, 1, 86400 + 10],
+    [250n * UNIT, 5n * UNIT, 2, 86400 + 20],
+  ] as const) {
+    const flash = TestHelpers.Pool.FlashLoan.createMockEvent({
+      target: ADDRESSES.flashTarget,
+      initiator: ADDRESSES.liquidator,
+      asset: ADDRESSES.collateral,
+      amount,
+      interestRateMode: 0n,
+      premium,
+      referralCode: 0n,
+      ...eventData(block, timestamp, ADDRESSES.pool),
+    });
+    mockDb = await TestHelpers.Pool.FlashLoan.processEvent({ event: flash, mockDb });
+  }
+
+  const initiator = mockDb.entities.FlashLoanInitiatorStats.get(ADDRESSES.liquidator);
+  assert.ok(initiator);
+  assert.equal(initiator.flashLoanCount, 2);
+  assert.equal(initiator.volumeUsd, 1500);
+  assert.equal(initiator.premiumUsd, 30);
+  assert.equal(initiator.protocolPremiumUsd, 6);
+  assert.equal(initiator.lpPremiumUsd, 24);
+  assert.equal(initiator.firstFlashLoanAt, 86410);
+  assert.equal(initiator.lastFlashLoanAt, 86420);
+
+  const target = mockDb.entities.FlashLoanTargetStats.get(ADDRESSES.flashTarget);
+  assert.equal(target?.flashLoanCount, 2);
+  assert.equal(target?.premiumUsd, 30);
+
+  const reserveId = `${ADDRESSES.collateral}-${ADDRESSES.pool}`;
+  const day = mockDb.entities.FlashLoanReserveDayData.get(`${reserveId}-1`);
+  assert.ok(day);
+  assert.equal(day.pool_id, ADDRESSES.pool);
+  assert.equal(day.flashLoanCount, 2);
+  assert.equal(day.volume, 750n * UNIT);
+  assert.equal(day.premium, 15n * UNIT);
+  assert.equal(day.protocolPremium, 3n * UNIT);
+  assert.equal(day.lpPremium, 12n * UNIT);
+  assert.equal(day.volumeUsd, 1500);
+  assert.equal(day.lpPremiumUsd, 24);
+});
+
 test('liquidations update reserve totals and create event record', async () => {
   const TestHelpers = loadTestHelpers();
   let mockDb: MockDb = TestHelpers.MockDb.createMockDb();
@@ -298,6 +359,201 @@ test('liquidations scope reserves and record asset prices', async () => {
   assert.equal(recordTwo?.borrowAssetPriceUSD, 0.75);
 });
 
+test('splitLiquidatedCollateral reconstructs bonus and protocol fee', () => {
+  // 5% bonus, 10% of the bonus to the protocol: 1050 seized, 50 bonus, 5 fee.
+  assert.deepEqual(splitLiquidatedCollateral(1045n * UNIT, 10500n, 1000n), {
+    totalCollateral: 1050n * UNIT,
+    liquidationBonusAmount: 45n * UNIT,
+    protocolFeeAmount: 5n * UNIT,
+  });
+  assert.deepEqual(splitLiquidatedCollateral(100n, 0n, 1000n), {
+    totalCollateral: 100n,
+    liquidationBonusAmount: 0n,
+    protocolFeeAmount: 0n,
+  });
+});
+
+test('liquidations record USD analytics and roll up liquidator, pair and day stats', async () => {
+  const TestHelpers = loadTestHelpers();
+  let mockDb: MockDb = TestHelpers.MockDb.createMockDb();
+  const eventData = createEventDataFactory();
+
+  mockDb = mockDb.entities.Protocol.set({ id: '1' });
+  mockDb = seedPool(mockDb, ADDRESSES.pool, 2000, undefined);
+  mockDb = seedReserve(mockDb, ADDRESSES.collateral, ADDRESSES.pool, 2000);
+  mockDb = seedReserve(mockDb, ADDRESSES.debt, ADDRESSES.pool, 2000);
+  mockDb = setAssetPrice(mockDb, ADDRESSES.collateral, 2, 2000);
+
+  const collateralId = `${ADDRESSES.collateral}-${ADDRESSES.pool}`;
+  const debtId = `${ADDRESSES.debt}-${ADDRESSES.pool}`;
+  const collateralReserve = mockDb.entities.Reserve.get(collateralId);
+  assert.ok(collateralReserve);
+  mockDb = mockDb.entities.Reserve.set({
+    ...collateralReserve,
+    reserveLiquidationBonus: 10500n,
+    liquidationProtocolFee: 1000n,
+  });
+
+  const liquidation = TestHelpers.Pool.LiquidationCall.createMockEvent({
+    collateralAsset: ADDRESSES.collateral,
+    debtAsset: ADDRESSES.debt,
+    user: ADDRESSES.user,
+    debtToCover: 1800n * UNIT,
+    liquidatedCollateralAmount: 1045n * UNIT,
+    liquidator: ADDRESSES.liquidator,
+    receiveAToken: false,
+    ...eventData(2, 2010, ADDRESSES.pool),
+  });
+  mockDb = await TestHelpers.Pool.LiquidationCall.processEvent({ event: liquidation, mockDb });
+
+  const record = mockDb.entities.LiquidationCall.get(
+    `${liquidation.transaction.hash}-${liquidation.logIndex}`
+  );
+  assert.equal(record?.liquidationBonusAmount, 45n * UNIT);
+  assert.equal(record?.protocolFeeAmount, 5n * UNIT);
+  assert.equal(record?.collateralAmountUSD, 2090);
+  assert.equal(record?.principalAmountUSD, 1800);
+  assert.equal(record?.liquidationBonusUSD, 90);
+  assert.equal(record?.protocolFeeUSD, 10);
+  assert.equal(record?.liquidatorProfitUSD, 290);
+
+  const second = TestHelpers.Pool.LiquidationCall.createMockEvent({
+    collateralAsset: ADDRESSES.collateral,
+    debtAsset: ADDRESSES.debt,
+    user: ADDRESSES.user,
+    debtToCover: 100n * UNIT,
+    liquidatedCollateralAmount: 0n,
+    liquidator: ADDRESSES.liquidator,
+    receiveAToken: false,
+    ...eventData(3, 2020, ADDRESSES.pool),
+  });
+  mockDb = await TestHelpers.Pool.LiquidationCall.processEvent({ event: second, mockDb });
+
+  const liquidatorStats = mockDb.entities.LiquidatorStats.get(ADDRESSES.liquidator);
+  assert.equal(liquidatorStats?.liquidationCount, 2);
+  assert.equal(liquidatorStats?.collateralSeizedUsd, 2100);
+  assert.equal(liquidatorStats?.debtCoveredUsd, 1900);
+  assert.equal(liquidatorStats?.profitUsd, 190);
+  assert.equal(liquidatorStats?.firstLiquidationAt, 2010);
+  assert.equal(liquidatorStats?.lastLiquidationAt, 2020);
+
+  const pair = mockDb.entities.LiquidationPairStats.get(`${collateralId}:${debtId}`);
+  assert.equal(pair?.pool_id, ADDRESSES.pool);
+  assert.equal(pair?.liquidationCount, 2);
+  assert.equal(pair?.collateralAmount, 1050n * UNIT);
+  assert.equal(pair?.principalAmount, 1900n * UNIT);
+  assert.equal(pair?.liquidationBonusUsd, 90);
+
+  const day = mockDb.entities.LiquidationDayData.get('0');
+  assert.equal(day?.liquidationCount, 2);
+  assert.equal(day?.protocolFeeUsd, 10);
+  assert.equal(day?.liquidatorProfitUsd, 190);
+});
+
+function seedUserReserve(
+  mockDb: MockDb,
+  reserveId: string,
+  balances: { supply: bigint; debt: bigint; collateral: boolean },
+  timestamp: number
+) {
+  return mockDb.entities.UserReserve.set({
+    id: `${ADDRESSES.user}-${reserveId}`,
+    pool_id: ADDRESSES.pool,
+    user_id: ADDRESSES.user,
+    reserve_id: reserveId,
+    scaledATokenBalance: balances.supply,
+    currentATokenBalance: balances.supply,
+    scaledVariableDebt: balances.debt,
+    currentVariableDebt: balances.debt,
+    principalStableDebt: 0n,
+    currentStableDebt: 0n,
+    currentTotalDebt: balances.debt,
+    stableBorrowRate: 0n,
+    oldStableBorrowRate: 0n,
+    liquidityRate: 0n,
+    variableBorrowIndex: RAY,
+    usageAsCollateralEnabledOnUser: balances.collateral,
+    lastUpdateTimestamp: timestamp,
+    stableBorrowLastUpdateTimestamp: 0,
+  });
+}
+
+test('liquidations that leave debt without collateral record bad debt', async () => {
+  const TestHelpers = loadTestHelpers();
+  let mockDb: MockDb = TestHelpers.MockDb.createMockDb();
+  const eventData = createEventDataFactory();
+
+  mockDb = mockDb.entities.Protocol.set({ id: '1' });
+  mockDb = seedPool(mockDb, ADDRESSES.pool, 2000, undefined);
+  mockDb = seedReserve(mockDb, ADDRESSES.collateral, ADDRESSES.pool, 2000);
+  mockDb = seedReserve(mockDb, ADDRESSES.debt, ADDRESSES.pool, 2000);
+  mockDb = setAssetPrice(mockDb, ADDRESSES.debt, 2, 2000);
+
+  const collateralId = `${ADDRESSES.collateral}-${ADDRESSES.pool}`;
+  const debtId = `${ADDRESSES.debt}-${ADDRESSES.pool}`;
+  mockDb = seedUserReserve(
+    mockDb,
+    collateralId,
+    { supply: 10n * UNIT, debt: 0n, collateral: true },
+    2000
+  );
+  mockDb = seedUserReserve(
+    mockDb,
+    debtId,
+    { supply: 0n, debt: 150n * UNIT, collateral: false },
+    2000
+  );
+  mockDb = mockDb.entities.UserReserveList.set({
+    id: ADDRESSES.user,
+    user_id: ADDRESSES.user,
+    reserveIds: [collateralId, debtId],
+    lastUpdate: 2000,
+  });
+
+  const partial = TestHelpers.Pool.LiquidationCall.createMockEvent({
+    collateralAsset: ADDRESSES.collateral,
+    debtAsset: ADDRESSES.debt,
+    user: ADDRESSES.user,
+    debtToCover: 10n * UNIT,
+    liquidatedCollateralAmount: 10n * UNIT,
+    liquidator: ADDRESSES.liquidator,
+    receiveAToken: false,
+    ...eventData(2, 2010, ADDRESSES.pool),
+  });
+  mockDb = await TestHelpers.Pool.LiquidationCall.processEvent({ event: partial, mockDb });
+  assert.equal(
+    mockDb.entities.BadDebtEvent.get(`${partial.transaction.hash}-${partial.logIndex}`),
+    undefined
+  );
+
+  // Collateral fully seized, debt still outstanding
+  mockDb = seedUserReserve(mockDb, collateralId, { supply: 0n, debt: 0n, collateral: true }, 2020);
+  const final = TestHelpers.Pool.LiquidationCall.createMockEvent({
+    collateralAsset: ADDRESSES.collateral,
+    debtAsset: ADDRESSES.debt,
+    user: ADDRESSES.user,
+    debtToCover: 10n * UNIT,
+    liquidatedCollateralAmount: 10n * UNIT,
+    liquidator: ADDRESSES.liquidator,
+    receiveAToken: false,
+    ...eventData(3, 2020, ADDRESSES.pool),
+  });
+  mockDb = await TestHelpers.Pool.LiquidationCall.processEvent({ event: final, mockDb });
+
+  const finalId = `${final.transaction.hash}-${final.logIndex}`;
+  const badDebt = mockDb.entities.BadDebtEvent.get(finalId);
+  assert.ok(badDebt);
+  assert.equal(badDebt.user_id, ADDRESSES.user);
+  assert.equal(badDebt.pool_id, ADDRESSES.pool);
+  assert.equal(badDebt.liquidation_id, finalId);
+  assert.deepEqual(badDebt.reserveIds, [debtId]);
+  assert.equal(badDebt.totalDebtUsd, 300);
+  assert.equal(badDebt.timestamp, 2020);
+
+  assert.equal(mockDb.entities.ReserveAggregate.get(debtId)?.badDebtUsd, 300);
+  assert.equal(mockDb.entities.PoolStats.get(ADDRESSES.pool)?.badDebtUsd, 300);
+});
+
 test('supply, borrow, and repay record prices and referrers', async () => {
   const TestHelpers = loadTestHelpers();
   let mockDb = TestHelpers.MockDb.createMockDb();
@@ -477,6 +733,327 @@ test('reserve data updates upsert hourly rate snapshots', async () => {
   assert.equal(mockDb.entities.ReserveRateSnapshot.get(`${reserveId}-7200`)?.liquidityAPRRay, 6n);
 });
 
+test('reserve activity and rate updates build hourly and daily market candles', async () => {
+  const TestHelpers = loadTestHelpers();
+  const eventData = createEventDataFactory();
+  const reserveId = `${ADDRESSES.collateral}-${ADDRESSES.pool}`;
+
+  let mockDb: MockDb = TestHelpers.MockDb.createMockDb();
+  mockDb = mockDb.entities.Protocol.set({ id: '1' });
+  mockDb = seedPool(mockDb, ADDRESSES.pool, 7200, undefined);
+  mockDb = seedReserve(mockDb, ADDRESSES.collateral, ADDRESSES.pool, 7200, {
+    totalATokenSupply: 1000n * UNIT,
+    totalLiquidity: 1000n * UNIT,
+    availableLiquidity: 600n * UNIT,
+  });
+  mockDb = setAssetPrice(mockDb, ADDRESSES.collateral, 2, 7200);
+  const seeded = mockDb.entities.Reserve.get(reserveId);
+  assert.ok(seeded);
+  mockDb = mockDb.entities.Reserve.set({ ...seeded, totalCurrentVariableDebt: 400n * UNIT });
+
+  const pct = (value: bigint) => (RAY * value) / 100n;
+  const rateUpdate = (
+    blockNumber: number,
+    timestamp: number,
+    supplyPct: bigint,
+    borrowPct: bigint
+  ) =>
+    TestHelpers.Pool.ReserveDataUpdated.processEvent({
+      event: TestHelpers.Pool.ReserveDataUpdated.createMockEvent({
+        reserve: ADDRESSES.collateral,
+        liquidityRate: pct(supplyPct),
+        stableBorrowRate: 0n,
+        variableBorrowRate: pct(borrowPct),
+        liquidityIndex: RAY,
+        variableBorrowIndex: RAY,
+        ...eventData(blockNumber, timestamp, ADDRESSES.pool),
+      }),
+      mockDb,
+    });
+
+  mockDb = await rateUpdate(31, 7200, 3n, 5n);
+  mockDb = await rateUpdate(32, 7200, 5n, 8n);
+  mockDb = await rateUpdate(33, 7200, 4n, 6n);
+
+  const supplyEvent = TestHelpers.Pool.Supply.createMockEvent({
+    reserve: ADDRESSES.collateral,
+    user: ADDRESSES.user,
+    onBehalfOf: ADDRESSES.user,
+    amount: 10n * UNIT,
+    referralCode: 0n,
+    ...eventData(34, 7200, ADDRESSES.pool),
+  });
+  mockDb = await TestHelpers.Pool.Supply.processEvent({ event: supplyEvent, mockDb });
+
+  const withdrawEvent = TestHelpers.Pool.Withdraw.createMockEvent({
+    reserve: ADDRESSES.collateral,
+    user: ADDRESSES.user,
+    to: ADDRESSES.user,
+    amount: 4n * UNIT,
+    ...eventData(35, 7200, ADDRESSES.pool),
+  });
+  mockDb = await TestHelpers.Pool.Withdraw.processEvent({ event: withdrawEvent, mockDb });
+
+  const hour = mockDb.entities.ReserveHourData.get(`${reserveId}-7200`);
+  assert.ok(hour);
+  assert.equal(hour.pool_id, ADDRESSES.pool);
+  assert.equal(hour.supplyApyOpen, rayRateToApy(pct(3n)));
+  assert.equal(hour.supplyApyHigh, rayRateToApy(pct(5n)));
+  assert.equal(hour.supplyApyLow, rayRateToApy(pct(3n)));
+  assert.equal(hour.supplyApyClose, rayRateToApy(pct(4n)));
+  assert.equal(hour.variableBorrowApyHigh, rayRateToApy(pct(8n)));
+  assert.equal(hour.variableBorrowApyClose, rayRateToApy(pct(6n)));
+  assert.equal(hour.utilizationClose, 0.4);
+  assert.equal(hour.totalSupplied, 1000n * UNIT);
+  assert.equal(hour.totalBorrowed, 400n * UNIT);
+  assert.equal(hour.totalSuppliedUsd, 2000);
+  assert.equal(hour.totalBorrowedUsd, 800);
+  assert.equal(hour.depositCount, 1);
+  assert.equal(hour.depositVolume, 10n * UNIT);
+  assert.equal(hour.depositVolumeUsd, 20);
+  assert.equal(hour.withdrawCount, 1);
+  assert.equal(hour.withdrawVolumeUsd, 8);
+  assert.equal(hour.borrowCount, 0);
+
+  // A later update opens a new hour but extends the same day candle.
+  mockDb = await rateUpdate(36, 10800, 7n, 9n);
+
+  const nextHour = mockDb.entities.ReserveHourData.get(`${reserveId}-10800`);
+  assert.equal(nextHour?.supplyApyOpen, rayRateToApy(pct(7n)));
+  assert.equal(nextHour?.depositCount, 0);
+
+  const day = mockDb.entities.ReserveDayData.get(`${reserveId}-0`);
+  assert.ok(day);
+  assert.equal(day.day, 0);
+  assert.equal(day.supplyApyOpen, rayRateToApy(pct(3n)));
+  assert.equal(day.supplyApyHigh, rayRateToApy(pct(7n)));
+  assert.equal(day.supplyApyClose, rayRateToApy(pct(7n)));
+  assert.equal(day.depositCount, 1);
+  assert.equal(day.withdrawCount, 1);
+  assert.equal(day.updatedAt, 10800);
+});
+
+test('delegated borrows consume allowance and record the delegation edge', async () => {
+  const TestHelpers = loadTestHelpers();
+  let mockDb: MockDb = TestHelpers.MockDb.createMockDb();
+  const eventData = createEventDataFactory();
+
+  mockDb = mockDb.entities.Protocol.set({ id: '1' });
+  mockDb = seedPool(mockDb, ADDRESSES.pool, 3000, undefined);
+  mockDb = seedReserve(mockDb, ADDRESSES.collateral, ADDRESSES.pool, 3000, {
+    totalATokenSupply: 1000n * UNIT,
+    totalLiquidity: 1000n * UNIT,
+    availableLiquidity: 1000n * UNIT,
+  });
+  mockDb = setAssetPrice(mockDb, ADDRESSES.collateral, 2, 3000);
+
+  const reserveId = `${ADDRESSES.collateral}-${ADDRESSES.pool}`;
+  const allowanceId = `${ADDRESSES.user}-${ADDRESSES.liquidator}-${ADDRESSES.collateral}-variable`;
+  const delegatedId = `variable${ADDRESSES.user}${ADDRESSES.liquidator}${ADDRESSES.collateral}`;
+  mockDb = mockDb.entities.BorrowAllowance.set({
+    id: allowanceId,
+    fromUser: ADDRESSES.user,
+    toUser: ADDRESSES.liquidator,
+    asset: ADDRESSES.collateral,
+    amount: 100n * UNIT,
+    lastUpdate: 3000,
+    lastUpdateTxHash: '0xdelegation',
+  });
+  mockDb = mockDb.entities.VariableTokenDelegatedAllowance.set({
+    id: delegatedId,
+    fromUser_id: ADDRESSES.user,
+    toUser_id: ADDRESSES.liquidator,
+    amountAllowed: 100n * UNIT,
+    userReserve_id: `${ADDRESSES.user}-${reserveId}`,
+  });
+
+  const borrowEvent = TestHelpers.Pool.Borrow.createMockEvent({
+    reserve: ADDRESSES.collateral,
+    user: ADDRESSES.liquidator,
+    onBehalfOf: ADDRESSES.user,
+    amount: 40n * UNIT,
+    interestRateMode: 2n,
+    borrowRate: 9n,
+    referralCode: 0n,
+    ...eventData(15, 3020, ADDRESSES.pool),
+  });
+  mockDb = await TestHelpers.Pool.Borrow.processEvent({ event: borrowEvent, mockDb });
+
+  const borrowId = `${borrowEvent.transaction.hash}-${borrowEvent.logIndex}`;
+  const edge = mockDb.entities.DelegatedBorrow.get(borrowId);
+  assert.ok(edge);
+  assert.equal(edge.delegator_id, ADDRESSES.user);
+  assert.equal(edge.delegatee_id, ADDRESSES.liquidator);
+  assert.equal(edge.borrowAllowance_id, allowanceId);
+  assert.equal(edge.amountUsd, 80);
+  assert.equal(edge.allowanceBefore, 100n * UNIT);
+  assert.equal(edge.allowanceAfter, 60n * UNIT);
+  assert.equal(mockDb.entities.BorrowAllowance.get(allowanceId)?.amount, 60n * UNIT);
+  assert.equal(
+    mockDb.entities.VariableTokenDelegatedAllowance.get(delegatedId)?.amountAllowed,
+    60n * UNIT
+  );
+
+  // The debt token already reported the reduced allowance in this transaction.
+  const secondBorrow = TestHelpers.Pool.Borrow.createMockEvent({
+    reserve: ADDRESSES.collateral,
+    user: ADDRESSES.liquidator,
+    onBehalfOf: ADDRESSES.user,
+    amount: 10n * UNIT,
+    interestRateMode: 2n,
+    borrowRate: 9n,
+    referralCode: 0n,
+    ...eventData(16, 3030, ADDRESSES.pool),
+  });
+  const allowance = mockDb.entities.BorrowAllowance.get(allowanceId);
+  assert.ok(allowance);
+  mockDb = mockDb.entities.BorrowAllowance.set({
+    ...allowance,
+    amount: 50n * UNIT,
+    lastUpdateTxHash: secondBorrow.transaction.hash,
+  });
+  mockDb = await TestHelpers.Pool.Borrow.processEvent({ event: secondBorrow, mockDb });
+
+  const secondEdge = mockDb.entities.DelegatedBorrow.get(
+    `${secondBorrow.transaction.hash}-${secondBorrow.logIndex}`
+  );
+  assert.equal(secondEdge?.allowanceBefore, 60n * UNIT);
+  assert.equal(secondEdge?.allowanceAfter, 50n * UNIT);
+  assert.equal(mockDb.entities.BorrowAllowance.get(allowanceId)?.amount, 50n * UNIT);
+
+  const selfBorrow = TestHelpers.Pool.Borrow.createMockEvent({
+    reserve: ADDRESSES.collateral,
+    user: ADDRESSES.user,
+    onBehalfOf: ADDRESSES.user,
+    amount: 5n * UNIT,
+    interestRateMode: 2n,
+    borrowRate: 9n,
+    referralCode: 0n,
+    ...eventData(17, 3040, ADDRESSES.pool),
+  });
+  mockDb = await TestHelpers.Pool.Borrow.processEvent({ event: selfBorrow, mockDb });
+  assert.equal(
+    mockDb.entities.DelegatedBorrow.get(`${selfBorrow.transaction.hash}-${selfBorrow.logIndex}`),
+    undefined
+  );
+});
+
+test('first daily activity snapshots the user portfolio and carries forward idle days', async () => {
+  const TestHelpers = loadTestHelpers();
+  let mockDb: MockDb = TestHelpers.MockDb.createMockDb();
+  const eventData = createEventDataFactory();
+
+  mockDb = mockDb.entities.Protocol.set({ id: '1' });
+  mockDb = seedPool(mockDb, ADDRESSES.pool, 1000, undefined);
+  mockDb = seedReserve(mockDb, ADDRESSES.collateral, ADDRESSES.pool, 1000);
+  mockDb = seedReserve(mockDb, ADDRESSES.debt, ADDRESSES.pool, 1000);
+  const collateralId = `${ADDRESSES.collateral}-${ADDRESSES.pool}`;
+  const debtId = `${ADDRESSES.debt}-${ADDRESSES.pool}`;
+  const setPriceE8 = (db: MockDb, reserveId: string, priceInUsdE8: bigint) => {
+    const reserve = db.entities.Reserve.get(reserveId);
+    assert.ok(reserve);
+    return db.entities.Reserve.set({ ...reserve, priceInUsdE8 });
+  };
+  mockDb = setPriceE8(mockDb, collateralId, 200000000n);
+  mockDb = setPriceE8(mockDb, debtId, 100000000n);
+  mockDb = seedUserReserve(
+    mockDb,
+    collateralId,
+    { supply: 100n * UNIT, debt: 0n, collateral: true },
+    1000
+  );
+  mockDb = seedUserReserve(
+    mockDb,
+    debtId,
+    { supply: 0n, debt: 50n * UNIT, collateral: false },
+    1000
+  );
+  mockDb = mockDb.entities.UserReserveList.set({
+    id: ADDRESSES.user,
+    user_id: ADDRESSES.user,
+    reserveIds: [collateralId, debtId],
+    lastUpdate: 1000,
+  });
+  mockDb = mockDb.entities.UserLPStats.set({
+    id: ADDRESSES.user,
+    user_id: ADDRESSES.user,
+    totalPositions: 1,
+    inRangePositions: 1,
+    totalValueUsd: 2500000000n,
+    inRangeValueUsd: 2500000000n,
+    lastUpdate: 1000,
+  });
+  mockDb = mockDb.entities.DustLockToken.set({
+    id: '1',
+    owner: ADDRESSES.user,
+    lockedAmount: 70n,
+    end: 0,
+    isPermanent: true,
+    createdAt: 0,
+    updatedAt: 0,
+    lastDepositType: undefined,
+    selfRepayEnabled: false,
+    rewardReceiver: undefined,
+  });
+
+  const supply = (blockNumber: number, timestamp: number) =>
+    TestHelpers.Pool.Supply.createMockEvent({
+      reserve: ADDRESSES.collateral,
+      user: ADDRESSES.user,
+      onBehalfOf: ADDRESSES.user,
+      amount: 1n,
+      referralCode: 0n,
+      ...eventData(blockNumber, timestamp, ADDRESSES.pool),
+    });
+
+  mockDb = await TestHelpers.Pool.Supply.processEvent({ event: supply(1, 86400 + 100), mockDb });
+  mockDb = setPriceE8(mockDb, collateralId, 300000000n);
+  mockDb = await TestHelpers.Pool.Supply.processEvent({ event: supply(2, 86400 + 200), mockDb });
+
+  const dayOne = mockDb.entities.UserPortfolioDaySnapshot.get(`${ADDRESSES.user}-1`);
+  assert.ok(dayOne);
+  assert.equal(dayOne.suppliedUsd, 200);
+  assert.equal(dayOne.borrowedUsd, 50);
+  assert.equal(dayOne.netPositionUsd, 150);
+  assert.equal(dayOne.lpValueUsd, 25);
+  assert.equal(dayOne.netWorthUsd, 175);
+  assert.equal(dayOne.veDustLocked, 70n);
+  assert.equal(dayOne.netWorthChangeUsd, 0);
+  assert.equal(dayOne.timestamp, 86500);
+
+  mockDb = await TestHelpers.Pool.Supply.processEvent({ event: supply(3, 4 * 86400 + 10), mockDb });
+
+  for (const day of [2, 3]) {
+    const carried = mockDb.entities.UserPortfolioDaySnapshot.get(`${ADDRESSES.user}-${day}`);
+    assert.equal(carried?.isCarriedForward, true);
+    assert.equal(carried?.netWorthUsd, 175);
+    assert.equal(carried?.netWorthChangeUsd, 0);
+  }
+  const dayFour = mockDb.entities.UserPortfolioDaySnapshot.get(`${ADDRESSES.user}-4`);
+  assert.equal(dayFour?.isCarriedForward, false);
+  assert.equal(dayFour?.suppliedUsd, 300);
+  assert.equal(dayFour?.netWorthChangeUsd, 100);
+  assert.equal(mockDb.entities.UserPortfolioState.get(ADDRESSES.user)?.lastSnapshotDay, 4);
+
+  // A 44-day absence backfills every idle day back to the previous snapshot.
+  mockDb = await TestHelpers.Pool.Supply.processEvent({ event: supply(4, 49 * 86400), mockDb });
+  for (const day of [5, 18, 48]) {
+    const carried = mockDb.entities.UserPortfolioDaySnapshot.get(`${ADDRESSES.user}-${day}`);
+    assert.equal(carried?.isCarriedForward, true);
+    assert.equal(carried?.timestamp, dayFour?.timestamp);
+  }
+  assert.equal(mockDb.entities.UserPortfolioDaySnapshot.get(`${ADDRESSES.user}-49`)?.day, 49);
+
+  // The state exposes the last known value for users who go idle again.
+  const state = mockDb.entities.UserPortfolioState.get(ADDRESSES.user);
+  assert.equal(state?.latestSnapshot_id, `${ADDRESSES.user}-49`);
+  assert.equal(
+    state?.latestNetWorthUsd,
+    mockDb.entities.UserPortfolioDaySnapshot.get(`${ADDRESSES.user}-49`)?.netWorthUsd
+  );
+  assert.equal(state?.latestSnapshotTimestamp, 49 * 86400);
+});
+
 test('supply without referral code leaves referrer empty', async () => {
   const TestHelpers = loadTestHelpers();
   let mockDb = TestHelpers.MockDb.createMockDb();
@@ -862,6 +1439,163 @@ test('minted to treasury records history and updates reserve', async () => {
   assert.ok(mockDb.entities.MintedToTreasury.get(historyId));
 });
 
+test('treasury revenue ledger splits reserve revenue by source and scope', async () => {
+  const TestHelpers = loadTestHelpers();
+  let mockDb: MockDb = TestHelpers.MockDb.createMockDb();
+  const eventData = createEventDataFactory();
+
+  mockDb = mockDb.entities.Protocol.set({ id: '1' });
+  mockDb = seedPool(mockDb, ADDRESSES.pool, 1000, 2000n);
+  mockDb = seedReserve(mockDb, ADDRESSES.collateral, ADDRESSES.pool, 1000, {
+    totalATokenSupply: 1000n * UNIT,
+    totalLiquidity: 1000n * UNIT,
+    availableLiquidity: 1000n * UNIT,
+  });
+  mockDb = setAssetPrice(mockDb, ADDRESSES.collateral, 2, 1000);
+  const initialize = (treasury: string, blockNumber: number) =>
+    TestHelpers.AToken.Initialized.processEvent({
+      event: TestHelpers.AToken.Initialized.createMockEvent({
+        underlyingAsset: ADDRESSES.collateral,
+        pool: ADDRESSES.pool,
+        treasury,
+        aTokenDecimals: 6n,
+        aTokenSymbol: 'nCOL',
+        aTokenName: 'Neverland Interest Bearing COL',
+        ...eventData(blockNumber, 1000, '0x0000000000000000000000000000000000003008'),
+      }),
+      mockDb,
+    });
+  mockDb = await initialize(TREASURY_ADDRESSES[0], 1);
+
+  const flash = TestHelpers.Pool.FlashLoan.createMockEvent({
+    target: ADDRESSES.flashTarget,
+    initiator: ADDRESSES.liquidator,
+    asset: ADDRESSES.collateral,
+    amount: 500n * UNIT,
+    interestRateMode: 0n,
+    premium: 10n * UNIT,
+    referralCode: 0n,
+    ...eventData(1, 86400 * 3 + 10, ADDRESSES.pool),
+  });
+  mockDb = await TestHelpers.Pool.FlashLoan.processEvent({ event: flash, mockDb });
+
+  const mintEvent = TestHelpers.Pool.MintedToTreasury.createMockEvent({
+    reserve: ADDRESSES.collateral,
+    amountMinted: 25n * UNIT,
+    ...eventData(2, 86400 * 3 + 20, ADDRESSES.pool),
+  });
+  mockDb = await TestHelpers.Pool.MintedToTreasury.processEvent({ event: mintEvent, mockDb });
+
+  const reserveId = `${ADDRESSES.collateral}-${ADDRESSES.pool}`;
+  const reserveDay = mockDb.entities.TreasuryRevenueDay.get(`${reserveId}-3`);
+  assert.ok(reserveDay);
+  assert.equal(reserveDay.scope, 'reserve');
+  assert.equal(reserveDay.pool_id, ADDRESSES.pool);
+  assert.equal(reserveDay.flashLoanPremiumUsd, 4);
+  assert.equal(reserveDay.mintedToTreasuryUsd, 50);
+  assert.equal(reserveDay.totalUsd, 4);
+  assert.equal(reserveDay.updatedAt, 86400 * 3 + 20);
+
+  const poolDay = mockDb.entities.TreasuryRevenueDay.get(`${ADDRESSES.pool}-3`);
+  assert.equal(poolDay?.scope, 'pool');
+  assert.equal(poolDay?.reserve_id, undefined);
+  assert.equal(poolDay?.flashLoanPremiumUsd, 4);
+  assert.equal(poolDay?.mintedToTreasuryUsd, 50);
+
+  const protocolDay = mockDb.entities.TreasuryRevenueDay.get('protocol-3');
+  assert.equal(protocolDay?.scope, 'protocol');
+  assert.equal(protocolDay?.totalUsd, 4);
+  assert.equal(protocolDay?.unverifiedRecipientUsd, 0);
+  const recipientId = `reserve-${reserveId}`;
+  assert.equal(mockDb.entities.TreasuryRevenueRecipient.get(recipientId)?.revenueUsd, 4);
+
+  // A reserve whose aToken pays an address outside TREASURY_ADDRESSES.
+  mockDb = await initialize(ADDRESSES.flashTarget, 3);
+  const recipient = mockDb.entities.TreasuryRevenueRecipient.get(recipientId);
+  assert.equal(recipient?.recipient, ADDRESSES.flashTarget);
+  assert.equal(recipient?.isKnownTreasury, false);
+  const secondFlash = TestHelpers.Pool.FlashLoan.createMockEvent({
+    target: ADDRESSES.flashTarget,
+    initiator: ADDRESSES.liquidator,
+    asset: ADDRESSES.collateral,
+    amount: 500n * UNIT,
+    interestRateMode: 0n,
+    premium: 10n * UNIT,
+    referralCode: 0n,
+    ...eventData(4, 86400 * 3 + 30, ADDRESSES.pool),
+  });
+  mockDb = await TestHelpers.Pool.FlashLoan.processEvent({ event: secondFlash, mockDb });
+  const unverifiedDay = mockDb.entities.TreasuryRevenueDay.get(`${reserveId}-3`);
+  assert.equal(unverifiedDay?.flashLoanPremiumUsd, 8);
+  assert.equal(unverifiedDay?.unverifiedRecipientUsd, 4);
+  assert.equal(mockDb.entities.TreasuryRevenueDay.get('protocol-3')?.unverifiedRecipientUsd, 4);
+});
+
+test('treasury mint realizing flash loan premiums is not counted twice', async () => {
+  const TestHelpers = loadTestHelpers();
+  let mockDb: MockDb = TestHelpers.MockDb.createMockDb();
+  const eventData = createEventDataFactory();
+  const aToken = '0x0000000000000000000000000000000000003008';
+
+  mockDb = mockDb.entities.Protocol.set({ id: '1' });
+  mockDb = seedPool(mockDb, ADDRESSES.pool, 1000, 2000n);
+  mockDb = seedReserve(mockDb, ADDRESSES.collateral, ADDRESSES.pool, 1000, {
+    totalATokenSupply: 1000n * UNIT,
+    totalLiquidity: 1000n * UNIT,
+    availableLiquidity: 1000n * UNIT,
+  });
+  mockDb = setAssetPrice(mockDb, ADDRESSES.collateral, 2, 1000);
+  mockDb = mockDb.entities.SubToken.set({
+    id: aToken,
+    pool_id: ADDRESSES.pool,
+    tokenContractImpl: undefined,
+    underlyingAssetAddress: ADDRESSES.collateral,
+    underlyingAssetDecimals: DECIMALS,
+  });
+
+  // 10 premium at 20% to protocol: 2 units ($4) owed to the treasury.
+  const flash = TestHelpers.Pool.FlashLoan.createMockEvent({
+    target: ADDRESSES.flashTarget,
+    initiator: ADDRESSES.liquidator,
+    asset: ADDRESSES.collateral,
+    amount: 500n * UNIT,
+    interestRateMode: 0n,
+    premium: 10n * UNIT,
+    referralCode: 0n,
+    ...eventData(1, 86400 * 3 + 10, ADDRESSES.pool),
+  });
+  mockDb = await TestHelpers.Pool.FlashLoan.processEvent({ event: flash, mockDb });
+
+  // mintToTreasury mints the premium plus 5 units ($10) of reserve-factor interest.
+  const treasuryMint = TestHelpers.AToken.Mint.createMockEvent({
+    caller: ADDRESSES.pool,
+    onBehalfOf: TREASURY_ADDRESSES[0],
+    value: 7n * UNIT,
+    balanceIncrease: 0n,
+    index: RAY,
+    ...eventData(2, 86400 * 3 + 20, aToken),
+  });
+  mockDb = await TestHelpers.AToken.Mint.processEvent({ event: treasuryMint, mockDb });
+  const mintedToTreasury = TestHelpers.Pool.MintedToTreasury.createMockEvent({
+    reserve: ADDRESSES.collateral,
+    amountMinted: 7n * UNIT,
+    ...eventData(2, 86400 * 3 + 20, ADDRESSES.pool),
+  });
+  mockDb = await TestHelpers.Pool.MintedToTreasury.processEvent({
+    event: mintedToTreasury,
+    mockDb,
+  });
+
+  const reserveId = `${ADDRESSES.collateral}-${ADDRESSES.pool}`;
+  const reserveDay = mockDb.entities.TreasuryRevenueDay.get(`${reserveId}-3`);
+  assert.equal(reserveDay?.flashLoanPremiumUsd, 4);
+  assert.equal(reserveDay?.reserveFactorInterestUsd, 10);
+  assert.equal(reserveDay?.mintedToTreasuryUsd, 14);
+  assert.equal(reserveDay?.totalUsd, 14);
+  assert.equal(mockDb.entities.TreasuryRevenueDay.get('protocol-3')?.totalUsd, 14);
+  assert.equal(mockDb.entities.TreasuryPendingPremium.get(reserveId)?.pendingFlashLoanPremium, 0n);
+});
+
 test('minted to treasury creates reserve aggregate when missing', async () => {
   const TestHelpers = loadTestHelpers();
   let mockDb = TestHelpers.MockDb.createMockDb();
@@ -993,6 +1727,75 @@ test('isolation mode total debt updates record', async () => {
   assert.equal(record?.isolatedDebt, 500n);
 });
 
+test('cap utilization records threshold crossings and binding duration', async () => {
+  const TestHelpers = loadTestHelpers();
+  let mockDb = TestHelpers.MockDb.createMockDb();
+  const eventData = createEventDataFactory();
+
+  mockDb = mockDb.entities.Protocol.set({ id: '1' });
+  mockDb = seedPool(mockDb, ADDRESSES.pool, 7000, undefined);
+  mockDb = seedReserve(mockDb, ADDRESSES.collateral, ADDRESSES.pool, 7000, {
+    totalATokenSupply: 850n * UNIT,
+  });
+  const reserveId = `${ADDRESSES.collateral}-${ADDRESSES.pool}`;
+  const reserve = mockDb.entities.Reserve.get(reserveId);
+  assert.ok(reserve);
+  mockDb = mockDb.entities.Reserve.set({ ...reserve, supplyCap: 1000n, debtCeiling: 10000n });
+
+  const updates: Array<[bigint, number]> = [
+    [9600n, 7010],
+    [10000n, 7100],
+    [5000n, 7700],
+  ];
+  const eventIds: string[] = [];
+  for (const [totalDebt, timestamp] of updates) {
+    const event = TestHelpers.Pool.IsolationModeTotalDebtUpdated.createMockEvent({
+      asset: ADDRESSES.collateral,
+      totalDebt,
+      ...eventData(9, timestamp, ADDRESSES.pool),
+    });
+    mockDb = await TestHelpers.Pool.IsolationModeTotalDebtUpdated.processEvent({
+      event,
+      mockDb,
+    });
+    eventIds.push(`${event.transaction.hash}-${event.logIndex}`);
+
+    if (totalDebt === 10000n) {
+      const binding = mockDb.entities.ReserveCapUtilization.get(reserveId);
+      assert.equal(binding?.debtCeilingLevel, 100);
+      assert.equal(binding?.debtCeilingBoundSince, 7100);
+    }
+  }
+
+  const utilization = mockDb.entities.ReserveCapUtilization.get(reserveId);
+  assert.ok(utilization);
+  assert.equal(utilization.isolationModeTotalDebt, 5000n);
+  assert.equal(utilization.debtCeilingUtilization, 0.5);
+  assert.equal(utilization.debtCeilingLevel, 0);
+  assert.equal(utilization.debtCeilingBindCount, 1);
+  assert.equal(utilization.debtCeilingBoundSince, undefined);
+  assert.equal(utilization.debtCeilingBoundSeconds, 600);
+  assert.equal(utilization.supplyCapUtilization, 0.85);
+  assert.equal(utilization.supplyCapLevel, 80);
+  assert.equal(utilization.borrowCapLevel, 0);
+
+  const thresholdId = (capType: string, threshold: number, index: number) =>
+    `${reserveId}-${capType}-${threshold}-${eventIds[index]}`;
+  const get = (id: string) => mockDb.entities.ReserveCapThresholdEvent.get(id);
+
+  assert.equal(get(thresholdId('supplyCap', 80, 0))?.direction, 'up');
+  assert.equal(get(thresholdId('debtCeiling', 80, 0))?.direction, 'up');
+  assert.equal(get(thresholdId('debtCeiling', 95, 0))?.direction, 'up');
+  assert.equal(get(thresholdId('debtCeiling', 100, 0)), undefined);
+  assert.equal(get(thresholdId('debtCeiling', 100, 1))?.direction, 'up');
+  const unbound = get(thresholdId('debtCeiling', 100, 2));
+  assert.equal(unbound?.direction, 'down');
+  assert.equal(unbound?.durationSeconds, 600);
+  assert.equal(unbound?.used, 5000n);
+  assert.equal(unbound?.cap, 10000n);
+  assert.equal(get(thresholdId('debtCeiling', 80, 2))?.direction, 'down');
+});
+
 test('swap borrow rate mode records direction and rates', async () => {
   const TestHelpers = loadTestHelpers();
   let mockDb = TestHelpers.MockDb.createMockDb();
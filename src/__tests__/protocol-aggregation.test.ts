@@ -28,6 +28,11 @@ const ADDRESSES = {
   aTokenB: '0x0000000000000000000000000000000000001006',
   vTokenB: '0x0000000000000000000000000000000000001007',
   user: '0x0000000000000000000000000000000000001008',
+  rewardsController: '0x0000000000000000000000000000000000001009',
+  oracle: '0x0000000000000000000000000000000000001010',
+  otherUser: '0x0000000000000000000000000000000000001011',
+  feedOracle: '0x0000000000000000000000000000000000001012',
+  sTokenA: '0x0000000000000000000000000000000000001013',
 };
 
 type TestHelpersApi = typeof TestHelpers;
@@ -95,6 +100,8 @@ function seedReserve(
   const reserve = {
     ...createDefaultReserve(reserveId, params.pool, params.asset),
     decimals: DECIMALS,
+    aToken_id: params.aToken,
+    vToken_id: params.vToken,
     totalATokenSupply: params.totalATokenSupply ?? 0n,
     totalLiquidity: params.totalLiquidity ?? 0n,
     availableLiquidity: params.availableLiquidity ?? 0n,
@@ -538,3 +545,615 @@ test('per-pool stats split by pool while protocol total sums all pools', async (
   assertApprox(stats?.tvlUsd ?? 0, toUsd(suppliesAE8 + suppliesBE8));
   assert.equal(stats?.tvlE8, (poolStatsA?.tvlE8 ?? 0n) + (poolStatsB?.tvlE8 ?? 0n));
 });
+
+test('incentive APR follows reserve supplies and expires at distribution end', async () => {
+  const TestHelpers = loadTestHelpers();
+  let mockDb: MockDb = TestHelpers.MockDb.createMockDb();
+  const eventData = createEventDataFactory();
+  const HOUR = 3600;
+  const distributionEnd = 10 * HOUR;
+
+  mockDb = seedPool(mockDb, ADDRESSES.pool, 1000);
+  ({ mockDb } = seedReserve(mockDb, {
+    asset: ADDRESSES.assetA,
+    pool: ADDRESSES.pool,
+    aToken: ADDRESSES.aTokenA,
+    vToken: ADDRESSES.vTokenA,
+    priceE8: 200000000n,
+    timestamp: 1000,
+  }));
+  // The reward token is reserve B with 6 decimals; only a seeded price so far.
+  ({ mockDb } = seedReserve(mockDb, {
+    asset: ADDRESSES.assetB,
+    pool: ADDRESSES.pool,
+    aToken: ADDRESSES.aTokenB,
+    vToken: ADDRESSES.vTokenB,
+    priceE8: 150000000n,
+    timestamp: 1000,
+  }));
+
+  const config = TestHelpers.RewardsController.AssetConfigUpdated.createMockEvent({
+    asset: ADDRESSES.aTokenA,
+    reward: ADDRESSES.assetB,
+    oldEmission: 0n,
+    newEmission: UNIT / 100n,
+    oldDistributionEnd: 0n,
+    newDistributionEnd: BigInt(distributionEnd),
+    assetIndex: 0n,
+    ...eventData(1, 1000, ADDRESSES.rewardsController),
+  });
+  mockDb = await TestHelpers.RewardsController.AssetConfigUpdated.processEvent({
+    event: config,
+    mockDb,
+  });
+
+  const aprId = `${ADDRESSES.rewardsController}-${ADDRESSES.aTokenA}-${ADDRESSES.assetB}`;
+  const configured = mockDb.entities.RewardApr.get(aprId);
+  assert.equal(configured?.side, 'supply');
+  assert.equal(configured?.reserve_id, `${ADDRESSES.assetA}-${ADDRESSES.pool}`);
+  assert.equal(configured?.isActive, true);
+  assert.equal(configured?.apr, 0);
+
+  const mint = (value: bigint, block: number, timestamp: number) =>
+    TestHelpers.AToken.Mint.createMockEvent({
+      caller: ADDRESSES.user,
+      onBehalfOf: ADDRESSES.user,
+      value,
+      balanceIncrease: 0n,
+      index: RAY,
+      ...eventData(block, timestamp, ADDRESSES.aTokenA),
+    });
+
+  mockDb = await TestHelpers.AToken.Mint.processEvent({
+    event: mint(500n * UNIT, 2, HOUR),
+    mockDb,
+  });
+  // The seeded price is not a real observation, so the APR is unknown.
+  const unpriced = mockDb.entities.RewardApr.get(aprId);
+  assertApprox(unpriced?.incentivizedUsd ?? 0, 1000);
+  assert.equal(unpriced?.hasRewardPrice, false);
+  assert.equal(unpriced?.rewardPriceUsd, 0);
+  assert.equal(unpriced?.apr, 0);
+  assert.equal(mockDb.entities.RewardAprSnapshot.get(`${aprId}-${HOUR}`)?.hasRewardPrice, false);
+
+  const priceObserved = TestHelpers.AToken.PriceObserved.createMockEvent({
+    asset: ADDRESSES.assetB,
+    price: 150000000n,
+    baseUnit: 100000000n,
+    oracle: ADDRESSES.oracle,
+    action: 0,
+    ok: true,
+    user: ADDRESSES.user,
+    timestamp: HOUR + 60,
+    ...eventData(3, HOUR + 60, ADDRESSES.aTokenB),
+  });
+  mockDb = await TestHelpers.AToken.PriceObserved.processEvent({ event: priceObserved, mockDb });
+
+  mockDb = await TestHelpers.AToken.Mint.processEvent({
+    event: mint(500n * UNIT, 4, 2 * HOUR),
+    mockDb,
+  });
+  // 0.01 reward/s at the observed $1.50 over $2,000 of supplies.
+  const yearlyEmissionsUsd = 0.01 * 365 * 86400 * 1.5;
+  const active = mockDb.entities.RewardApr.get(aprId);
+  assertApprox(active?.incentivizedUsd ?? 0, 2000);
+  assertApprox(active?.yearlyEmissionsUsd ?? 0, yearlyEmissionsUsd);
+  assert.equal(active?.hasRewardPrice, true);
+  assertApprox(active?.apr ?? 0, yearlyEmissionsUsd / 2000);
+  assertApprox(
+    mockDb.entities.RewardAprSnapshot.get(`${aprId}-${2 * HOUR}`)?.apr ?? 0,
+    yearlyEmissionsUsd / 2000
+  );
+
+  mockDb = await TestHelpers.AToken.Mint.processEvent({
+    event: mint(1000n * UNIT, 5, distributionEnd + 60),
+    mockDb,
+  });
+  const expired = mockDb.entities.RewardApr.get(aprId);
+  assert.equal(expired?.isActive, false);
+  assert.equal(expired?.apr, 0);
+  assertApprox(expired?.incentivizedUsd ?? 0, 4000);
+  const expiredSnapshot = mockDb.entities.RewardAprSnapshot.get(`${aprId}-${distributionEnd}`);
+  assert.equal(expiredSnapshot?.isActive, false);
+});
+
+test('stable debt incentives price through the feed oracle and expire on idle reserves', async () => {
+  const TestHelpers = loadTestHelpers();
+  let mockDb: MockDb = TestHelpers.MockDb.createMockDb();
+  const eventData = createEventDataFactory();
+  const HOUR = 3600;
+  const distributionEnd = 10 * HOUR;
+
+  mockDb = seedPool(mockDb, ADDRESSES.pool, 1000);
+  ({ mockDb } = seedReserve(mockDb, {
+    asset: ADDRESSES.assetA,
+    pool: ADDRESSES.pool,
+    aToken: ADDRESSES.aTokenA,
+    vToken: ADDRESSES.vTokenA,
+    priceE8: 200000000n,
+    timestamp: 1000,
+  }));
+  ({ mockDb } = seedReserve(mockDb, {
+    asset: ADDRESSES.assetB,
+    pool: ADDRESSES.pool,
+    aToken: ADDRESSES.aTokenB,
+    vToken: ADDRESSES.vTokenB,
+    priceE8: 150000000n,
+    timestamp: 1000,
+  }));
+  const reserveAId = `${ADDRESSES.assetA}-${ADDRESSES.pool}`;
+  const reserveA = mockDb.entities.Reserve.get(reserveAId);
+  assert.ok(reserveA);
+  mockDb = mockDb.entities.Reserve.set({
+    ...reserveA,
+    sToken_id: ADDRESSES.sTokenA,
+    totalPrincipalStableDebt: 300n * UNIT,
+    priceInUsd: 2,
+  });
+
+  // The controller prices assetB rewards through its own feed, which reads $4.
+  mockDb = await TestHelpers.RewardsController.RewardOracleUpdated.processEvent({
+    event: TestHelpers.RewardsController.RewardOracleUpdated.createMockEvent({
+      reward: ADDRESSES.assetB,
+      rewardOracle: ADDRESSES.feedOracle,
+      ...eventData(1, 1000, ADDRESSES.rewardsController),
+    }),
+    mockDb,
+  });
+  const observe = (oracle: string, price: bigint, block: number, asset = ADDRESSES.assetB) =>
+    TestHelpers.AToken.PriceObserved.processEvent({
+      event: TestHelpers.AToken.PriceObserved.createMockEvent({
+        asset,
+        price,
+        baseUnit: 100000000n,
+        oracle,
+        action: 0,
+        ok: true,
+        user: ADDRESSES.user,
+        timestamp: 1000,
+        ...eventData(block, 1000, ADDRESSES.aTokenB),
+      }),
+      mockDb,
+    });
+  mockDb = await observe(ADDRESSES.feedOracle, 400000000n, 2);
+
+  const configure = (asset: string, block: number) =>
+    TestHelpers.RewardsController.AssetConfigUpdated.processEvent({
+      event: TestHelpers.RewardsController.AssetConfigUpdated.createMockEvent({
+        asset,
+        reward: ADDRESSES.assetB,
+        oldEmission: 0n,
+        newEmission: UNIT / 100n,
+        oldDistributionEnd: 0n,
+        newDistributionEnd: BigInt(distributionEnd),
+        assetIndex: 0n,
+        ...eventData(block, 1000, ADDRESSES.rewardsController),
+      }),
+      mockDb,
+    });
+  mockDb = await configure(ADDRESSES.sTokenA, 3);
+  mockDb = await configure(ADDRESSES.aTokenB, 4);
+
+  const stableAprId = `${ADDRESSES.rewardsController}-${ADDRESSES.sTokenA}-${ADDRESSES.assetB}`;
+  const stable = mockDb.entities.RewardApr.get(stableAprId);
+  assert.equal(stable?.side, 'stableBorrow');
+  assert.equal(stable?.reserve_id, reserveAId);
+  assert.equal(stable?.rewardFeedOracle, ADDRESSES.feedOracle);
+  assert.equal(stable?.rewardPriceUsd, 4);
+  // 0.01 reward/s at $4 over $600 of stable debt.
+  const yearlyEmissionsUsd = 0.01 * 365 * 86400 * 4;
+  assertApprox(stable?.incentivizedUsd ?? 0, 600);
+  assertApprox(stable?.apr ?? 0, yearlyEmissionsUsd / 600);
+  assert.equal(
+    mockDb.entities.Reward.get(
+      `${ADDRESSES.rewardsController}:${ADDRESSES.sTokenA}:${ADDRESSES.assetB}`
+    )?.rewardFeedOracle,
+    ADDRESSES.feedOracle
+  );
+
+  // Reading the reward token through another oracle leaves the feed's price.
+  mockDb = await observe(ADDRESSES.oracle, 150000000n, 5);
+  assert.equal(mockDb.entities.FeedOraclePrice.get(ADDRESSES.feedOracle)?.lastPriceUsd, 4);
+  // A feed read of another asset is not the reward's price; use the token's own.
+  mockDb = await observe(ADDRESSES.feedOracle, 200000000n, 6, ADDRESSES.assetA);
+  mockDb = await TestHelpers.AToken.Mint.processEvent({
+    event: TestHelpers.AToken.Mint.createMockEvent({
+      caller: ADDRESSES.user,
+      onBehalfOf: ADDRESSES.user,
+      value: 100n * UNIT,
+      balanceIncrease: 0n,
+      index: RAY,
+      ...eventData(7, distributionEnd + 60, ADDRESSES.aTokenA),
+    }),
+    mockDb,
+  });
+
+  // Reserve B saw no update after distributionEnd, yet its rate is expired.
+  const idle = mockDb.entities.RewardApr.get(
+    `${ADDRESSES.rewardsController}-${ADDRESSES.aTokenB}-${ADDRESSES.assetB}`
+  );
+  assert.equal(idle?.isActive, false);
+  assert.equal(idle?.apr, 0);
+  assert.equal(idle?.updatedAt, distributionEnd + 60);
+  const expiredStable = mockDb.entities.RewardApr.get(stableAprId);
+  assert.equal(expiredStable?.isActive, false);
+  assert.equal(expiredStable?.apr, 0);
+  assert.equal(expiredStable?.rewardPriceUsd, 1.5);
+});
+
+test('user incentive rewards project pending accrual and reconcile claims', async () => {
+  const TestHelpers = loadTestHelpers();
+  let mockDb: MockDb = TestHelpers.MockDb.createMockDb();
+  const eventData = createEventDataFactory();
+
+  mockDb = seedPool(mockDb, ADDRESSES.pool, 1000);
+  ({ mockDb } = seedReserve(mockDb, {
+    asset: ADDRESSES.assetA,
+    pool: ADDRESSES.pool,
+    aToken: ADDRESSES.aTokenA,
+    vToken: ADDRESSES.vTokenA,
+    priceE8: 100000000n,
+    timestamp: 1000,
+  }));
+
+  const config = TestHelpers.RewardsController.AssetConfigUpdated.createMockEvent({
+    asset: ADDRESSES.aTokenA,
+    reward: ADDRESSES.assetB,
+    oldEmission: 0n,
+    newEmission: UNIT / 100n,
+    oldDistributionEnd: 0n,
+    newDistributionEnd: 100000n,
+    assetIndex: 0n,
+    ...eventData(1, 1000, ADDRESSES.rewardsController),
+  });
+  mockDb = await TestHelpers.RewardsController.AssetConfigUpdated.processEvent({
+    event: config,
+    mockDb,
+  });
+
+  const supply = TestHelpers.AToken.Mint.createMockEvent({
+    caller: ADDRESSES.user,
+    onBehalfOf: ADDRESSES.user,
+    value: 1000n * UNIT,
+    balanceIncrease: 0n,
+    index: RAY,
+    ...eventData(2, 1000, ADDRESSES.aTokenA),
+  });
+  mockDb = await TestHelpers.AToken.Mint.processEvent({ event: supply, mockDb });
+
+  const accrued = TestHelpers.RewardsController.Accrued.createMockEvent({
+    asset: ADDRESSES.aTokenA,
+    reward: ADDRESSES.assetB,
+    user: ADDRESSES.user,
+    assetIndex: 12345n,
+    userIndex: 12345n,
+    rewardsAccrued: 5000n,
+    ...eventData(3, 2000, ADDRESSES.rewardsController),
+  });
+  mockDb = await TestHelpers.RewardsController.Accrued.processEvent({ event: accrued, mockDb });
+
+  const balanceId = `${ADDRESSES.rewardsController}:${ADDRESSES.aTokenA}:${ADDRESSES.assetB}:${ADDRESSES.user}`;
+  const afterAccrual = mockDb.entities.UserRewardBalance.get(balanceId);
+  assert.equal(afterAccrual?.accrued, 5000n);
+  assert.equal(afterAccrual?.pending, 0n);
+  assert.equal(afterAccrual?.scaledBalance, 1000n * UNIT);
+
+  const claim = TestHelpers.RewardsController.RewardsClaimed.createMockEvent({
+    user: ADDRESSES.user,
+    reward: ADDRESSES.assetB,
+    to: ADDRESSES.user,
+    claimer: ADDRESSES.user,
+    amount: 3000n,
+    ...eventData(4, 3000, ADDRESSES.rewardsController),
+  });
+  mockDb = await TestHelpers.RewardsController.RewardsClaimed.processEvent({
+    event: claim,
+    mockDb,
+  });
+
+  // As the only supplier the user earns the full 0.01 reward/s for 1000s.
+  const afterClaim = mockDb.entities.UserRewardBalance.get(balanceId);
+  assert.equal(afterClaim?.accrued, 2000n);
+  assert.equal(afterClaim?.claimed, 3000n);
+  assert.equal(afterClaim?.pending, 10n * UNIT);
+  assert.equal(afterClaim?.unclaimed, 2000n + 10n * UNIT);
+  assert.equal(afterClaim?.projectedAt, 3000);
+
+  // Another supplier's deposit updates the reserve and re-projects the idle
+  // user: 0.01 reward/s for 2000s since the Accrued index, over 4000 scaled.
+  const otherSupply = TestHelpers.AToken.Mint.createMockEvent({
+    caller: ADDRESSES.otherUser,
+    onBehalfOf: ADDRESSES.otherUser,
+    value: 3000n * UNIT,
+    balanceIncrease: 0n,
+    index: RAY,
+    ...eventData(5, 4000, ADDRESSES.aTokenA),
+  });
+  mockDb = await TestHelpers.AToken.Mint.processEvent({ event: otherSupply, mockDb });
+  const idle = mockDb.entities.UserRewardBalance.get(balanceId);
+  assert.equal(idle?.accrued, 2000n);
+  assert.equal(idle?.pending, 5n * UNIT);
+  assert.equal(idle?.unclaimed, 2000n + 5n * UNIT);
+  assert.equal(idle?.projectedAt, 4000);
+  assert.equal(
+    mockDb.entities.UserRewardProjectionCursor.get(`${ADDRESSES.assetA}-${ADDRESSES.pool}`)
+      ?.lastUpdate,
+    4000
+  );
+});
+
+test('reward claim remainders follow the controller asset list order', async () => {
+  const TestHelpers = loadTestHelpers();
+  let mockDb: MockDb = TestHelpers.MockDb.createMockDb();
+  const eventData = createEventDataFactory();
+
+  mockDb = seedPool(mockDb, ADDRESSES.pool, 1000);
+  ({ mockDb } = seedReserve(mockDb, {
+    asset: ADDRESSES.assetA,
+    pool: ADDRESSES.pool,
+    aToken: ADDRESSES.aTokenA,
+    vToken: ADDRESSES.vTokenA,
+    priceE8: 100000000n,
+    timestamp: 1000,
+  }));
+
+  // The debt token joins the controller's asset list before the aToken.
+  for (const asset of [ADDRESSES.vTokenA, ADDRESSES.aTokenA]) {
+    mockDb = await TestHelpers.RewardsController.AssetConfigUpdated.processEvent({
+      event: TestHelpers.RewardsController.AssetConfigUpdated.createMockEvent({
+        asset,
+        reward: ADDRESSES.assetB,
+        oldEmission: 0n,
+        newEmission: 0n,
+        oldDistributionEnd: 0n,
+        newDistributionEnd: 100000n,
+        assetIndex: 0n,
+        ...eventData(1, 1000, ADDRESSES.rewardsController),
+      }),
+      mockDb,
+    });
+  }
+  assert.equal(
+    mockDb.entities.RewardsControllerAsset.get(
+      `${ADDRESSES.rewardsController}-${ADDRESSES.aTokenA}`
+    )?.listIndex,
+    1
+  );
+  assert.equal(mockDb.entities.RewardsController.get(ADDRESSES.rewardsController)?.assetCount, 2);
+
+  for (const asset of [ADDRESSES.aTokenA, ADDRESSES.vTokenA]) {
+    mockDb = await TestHelpers.RewardsController.Accrued.processEvent({
+      event: TestHelpers.RewardsController.Accrued.createMockEvent({
+        asset,
+        reward: ADDRESSES.assetB,
+        user: ADDRESSES.user,
+        assetIndex: 1n,
+        userIndex: 1n,
+        rewardsAccrued: 4000n,
+        ...eventData(2, 2000, ADDRESSES.rewardsController),
+      }),
+      mockDb,
+    });
+  }
+
+  // No pair accrued in the claim transaction, so the claim walks the list.
+  mockDb = await TestHelpers.RewardsController.RewardsClaimed.processEvent({
+    event: TestHelpers.RewardsController.RewardsClaimed.createMockEvent({
+      user: ADDRESSES.user,
+      reward: ADDRESSES.assetB,
+      to: ADDRESSES.user,
+      claimer: ADDRESSES.user,
+      amount: 5000n,
+      ...eventData(3, 3000, ADDRESSES.rewardsController),
+    }),
+    mockDb,
+  });
+
+  const balanceId = (asset: string) =>
+    `${ADDRESSES.rewardsController}:${asset}:${ADDRESSES.assetB}:${ADDRESSES.user}`;
+  assert.equal(mockDb.entities.UserRewardBalance.get(balanceId(ADDRESSES.vTokenA))?.accrued, 0n);
+  assert.equal(mockDb.entities.UserRewardBalance.get(balanceId(ADDRESSES.aTokenA))?.accrued, 3000n);
+});
+
+test('reward claims drain the pairs accrued in the same transaction', async () => {
+  const TestHelpers = loadTestHelpers();
+  let mockDb: MockDb = TestHelpers.MockDb.createMockDb();
+  const eventData = createEventDataFactory();
+
+  mockDb = seedPool(mockDb, ADDRESSES.pool, 1000);
+  ({ mockDb } = seedReserve(mockDb, {
+    asset: ADDRESSES.assetA,
+    pool: ADDRESSES.pool,
+    aToken: ADDRESSES.aTokenA,
+    vToken: ADDRESSES.vTokenA,
+    priceE8: 100000000n,
+    timestamp: 1000,
+  }));
+
+  const accrue = (
+    asset: string,
+    rewardsAccrued: bigint,
+    data: ReturnType<ReturnType<typeof createEventDataFactory>>
+  ) =>
+    TestHelpers.RewardsController.Accrued.processEvent({
+      event: TestHelpers.RewardsController.Accrued.createMockEvent({
+        asset,
+        reward: ADDRESSES.assetB,
+        user: ADDRESSES.user,
+        assetIndex: 1n,
+        userIndex: 1n,
+        rewardsAccrued,
+        ...data,
+      }),
+      mockDb,
+    });
+
+  // Both pairs hold accrued rewards from earlier transactions.
+  mockDb = await accrue(ADDRESSES.aTokenA, 5000n, eventData(2, 2000, ADDRESSES.rewardsController));
+  mockDb = await accrue(ADDRESSES.vTokenA, 4000n, eventData(3, 2000, ADDRESSES.rewardsController));
+
+  // claimRewards([vTokenA]) settles vTokenA (Accrued) and then claims it.
+  const claimTx = eventData(4, 3000, ADDRESSES.rewardsController);
+  mockDb = await accrue(ADDRESSES.vTokenA, 1000n, claimTx);
+  const claimData = eventData(4, 3000, ADDRESSES.rewardsController);
+  const claim = TestHelpers.RewardsController.RewardsClaimed.createMockEvent({
+    user: ADDRESSES.user,
+    reward: ADDRESSES.assetB,
+    to: ADDRESSES.user,
+    claimer: ADDRESSES.user,
+    amount: 5000n,
+    mockEventData: {
+      ...claimData.mockEventData,
+      transaction: claimTx.mockEventData.transaction,
+    },
+  });
+  mockDb = await TestHelpers.RewardsController.RewardsClaimed.processEvent({
+    event: claim,
+    mockDb,
+  });
+
+  const balanceId = (asset: string) =>
+    `${ADDRESSES.rewardsController}:${asset}:${ADDRESSES.assetB}:${ADDRESSES.user}`;
+  const claimedPair = mockDb.entities.UserRewardBalance.get(balanceId(ADDRESSES.vTokenA));
+  assert.equal(claimedPair?.accrued, 0n);
+  assert.equal(claimedPair?.claimed, 5000n);
+  assert.equal(claimedPair?.lastAccruedTxHash, claimTx.mockEventData.transaction.hash);
+  // The alphabetically first pair was not part of the claim and keeps its accrual.
+  const untouchedPair = mockDb.entities.UserRewardBalance.get(balanceId(ADDRESSES.aTokenA));
+  assert.equal(untouchedPair?.accrued, 5000n);
+  assert.equal(untouchedPair?.claimed, 0n);
+});
+
+test('emission schedules track budget, emitted totals and expiry', async () => {
+  const TestHelpers = loadTestHelpers();
+  let mockDb: MockDb = TestHelpers.MockDb.createMockDb();
+  const eventData = createEventDataFactory();
+  const DAY = 86400;
+  const start = 1000;
+  const end = start + 20 * DAY;
+  const renewedAt = end - 2 * DAY;
+
+  mockDb = seedPool(mockDb, ADDRESSES.pool, start);
+  ({ mockDb } = seedReserve(mockDb, {
+    asset: ADDRESSES.assetA,
+    pool: ADDRESSES.pool,
+    aToken: ADDRESSES.aTokenA,
+    vToken: ADDRESSES.vTokenA,
+    priceE8: 100000000n,
+    timestamp: start,
+  }));
+
+  const configure = async (
+    oldEmission: bigint,
+    newEmission: bigint,
+    block: number,
+    timestamp: number
+  ) => {
+    const event = TestHelpers.RewardsController.AssetConfigUpdated.createMockEvent({
+      asset: ADDRESSES.aTokenA,
+      reward: ADDRESSES.assetB,
+      oldEmission,
+      newEmission,
+      oldDistributionEnd: BigInt(end),
+      newDistributionEnd: BigInt(end),
+      assetIndex: 0n,
+      ...eventData(block, timestamp, ADDRESSES.rewardsController),
+    });
+    mockDb = await TestHelpers.RewardsController.AssetConfigUpdated.processEvent({
+      event,
+      mockDb,
+    });
+  };
+  const supply = async (block: number, timestamp: number) => {
+    const event = TestHelpers.AToken.Mint.createMockEvent({
+      caller: ADDRESSES.user,
+      onBehalfOf: ADDRESSES.user,
+      value: 100n * UNIT,
+      balanceIncrease: 0n,
+      index: RAY,
+      ...eventData(block, timestamp, ADDRESSES.aTokenA),
+    });
+    mockDb = await TestHelpers.AToken.Mint.processEvent({ event, mockDb });
+  };
+
+  const scheduleId = `${ADDRESSES.rewardsController}-${ADDRESSES.aTokenA}-${ADDRESSES.assetB}`;
+  await configure(0n, 10n, 1, start);
+  const configured = mockDb.entities.EmissionSchedule.get(scheduleId);
+  assert.equal(configured?.status, 'active');
+  assert.equal(configured?.remainingBudget, BigInt(10 * 20 * DAY));
+  assert.equal(configured?.emittedToDate, 0n);
+
+  await supply(2, end - 3 * DAY);
+  const expiring = mockDb.entities.EmissionSchedule.get(scheduleId);
+  assert.equal(expiring?.status, 'expiring');
+  assert.equal(expiring?.endsSoon, true);
+  assert.equal(expiring?.emittedToDate, BigInt(10 * 17 * DAY));
+  const expiringToken = mockDb.entities.EmissionRewardToken.get(ADDRESSES.assetB);
+  assert.equal(expiringToken?.historicalEmitted, 0n);
+  assert.equal(expiringToken?.currentEmitted, BigInt(10 * 17 * DAY));
+  assert.equal(expiringToken?.totalEmitted, BigInt(10 * 17 * DAY));
+
+  await configure(10n, 20n, 3, renewedAt);
+  const closed = BigInt(10 * (renewedAt - start));
+  assert.equal(mockDb.entities.EmissionSchedule.get(scheduleId)?.closedEmitted, closed);
+  assert.equal(
+    mockDb.entities.EmissionRewardToken.get(ADDRESSES.assetB)?.historicalEmitted,
+    closed
+  );
+
+  await supply(4, end + 100);
+  const ended = mockDb.entities.EmissionSchedule.get(scheduleId);
+  assert.equal(ended?.status, 'ended');
+  assert.equal(ended?.endedWithHolders, true);
+  assert.equal(ended?.remainingBudget, 0n);
+  assert.equal(ended?.emittedToDate, closed + BigInt(20 * 2 * DAY));
+  const endedToken = mockDb.entities.EmissionRewardToken.get(ADDRESSES.assetB);
+  assert.equal(endedToken?.historicalEmitted, closed);
+  assert.equal(endedToken?.currentEmitted, BigInt(20 * 2 * DAY));
+  assert.equal(endedToken?.totalEmitted, ended?.emittedToDate);
+});
+
+test('ended campaigns flag holders from raw supply when the reserve has no price', async () => {
+  const TestHelpers = loadTestHelpers();
+  let mockDb: MockDb = TestHelpers.MockDb.createMockDb();
+  const eventData = createEventDataFactory();
+  const start = 1000;
+  const end = start + 86400;
+
+  mockDb = seedPool(mockDb, ADDRESSES.pool, start);
+  ({ mockDb } = seedReserve(mockDb, {
+    asset: ADDRESSES.assetA,
+    pool: ADDRESSES.pool,
+    aToken: ADDRESSES.aTokenA,
+    vToken: ADDRESSES.vTokenA,
+    priceE8: 0n,
+    timestamp: start,
+    totalATokenSupply: 100n * UNIT,
+  }));
+
+  const configure = async (block: number, timestamp: number) => {
+    const event = TestHelpers.RewardsController.AssetConfigUpdated.createMockEvent({
+      asset: ADDRESSES.aTokenA,
+      reward: ADDRESSES.assetB,
+      oldEmission: 10n,
+      newEmission: 10n,
+      oldDistributionEnd: BigInt(end),
+      newDistributionEnd: BigInt(end),
+      assetIndex: 0n,
+      ...eventData(block, timestamp, ADDRESSES.rewardsController),
+    });
+    mockDb = await TestHelpers.RewardsController.AssetConfigUpdated.processEvent({
+      event,
+      mockDb,
+    });
+  };
+  await configure(1, start);
+  await configure(2, end + 100);
+
+  const ended = mockDb.entities.EmissionSchedule.get(
+    `${ADDRESSES.rewardsController}-${ADDRESSES.aTokenA}-${ADDRESSES.assetB}`
+  );
+  assert.equal(ended?.status, 'ended');
+  assert.equal(ended?.incentivizedUsd, 0);
+  assert.equal(ended?.endedWithHolders, true);
+});
@@ -3,7 +3,17 @@ import { test } from 'node:test';
 
 import { TestHelpers } from './v3-test-helpers';
 
-import { ZERO_ADDRESS } from '../helpers/constants';
+import {
+  BALANCER_AUTORANGE_V3_POOL_ADDRESS,
+  BOOTSTRAP_LP_POOL_CONFIGS,
+  DUST_LOCK_ADDRESS,
+  DUST_TOKEN_ADDRESS,
+  TREASURY_ADDRESSES,
+  ZERO_ADDRESS,
+} from '../helpers/constants';
+import { recordDustSupplySnapshot } from '../helpers/dustSupply';
+
+import type { DustSupplySnapshot, handlerContext } from '../../generated';
 
 process.env.ENVIO_ENABLE_EXTERNAL_CALLS = 'false';
 process.env.ENVIO_ENABLE_ETH_CALLS = 'false';
@@ -189,6 +199,15 @@ test('rewards controller config, accrual, and claim flows', async () => {
   assert.equal(updatedUser?.unclaimedRewards, 0n);
   assert.equal(updatedUser?.lifetimeRewards, 150n);
 
+  // The reward has no observed price: no default is seeded and its APR is unknown.
+  const rewardApr = mockDb.entities.RewardApr.get(
+    `${ADDRESSES.controller}-${ADDRESSES.asset}-${ADDRESSES.reward}`
+  );
+  assert.equal(rewardApr?.hasRewardPrice, false);
+  assert.equal(rewardApr?.apr, 0);
+  assert.equal(mockDb.entities.PriceOracleAsset.get(ADDRESSES.reward), undefined);
+  assert.equal(mockDb.entities.AssetPriceCandle.getAll().length, 0);
+
   const claimId = `${claimEvent.transaction.hash}-${claimEvent.logIndex}`;
   const claim = mockDb.entities.ClaimRewardsCall.get(claimId);
   assert.ok(claim);
@@ -582,3 +601,271 @@ test('dust token events increment stats and create history', async () => {
   const protocolStats = mockDb.entities.ProtocolStats.get('1');
   assert.equal(protocolStats?.totalDustTransfers, 2n);
 });
+
+test('self-repayments build vault and veNFT payoff projections', async () => {
+  const TestHelpers = loadTestHelpers();
+  let mockDb = TestHelpers.MockDb.createMockDb();
+  const eventData = createEventDataFactory();
+  const WEEK = 604800;
+  const UNIT = 10n ** 18n;
+  const reserveId = `${ADDRESSES.debtUnderlying}-pool`;
+
+  mockDb = mockDb.entities.SubToken.set({
+    id: ADDRESSES.collateralAsset,
+    pool_id: 'pool',
+    tokenContractImpl: undefined,
+    underlyingAssetAddress: ADDRESSES.debtUnderlying,
+    underlyingAssetDecimals: 18,
+  });
+  mockDb = mockDb.entities.PriceOracleAsset.set({
+    id: ADDRESSES.debtUnderlying,
+    oracle_id: '',
+    priceSource: '',
+    dependentAssets: [],
+    priceType: '',
+    platform: '',
+    priceInEth: 100000000n,
+    isFallbackRequired: false,
+    lastUpdateTimestamp: 100 * WEEK,
+    priceCacheExpiry: 0,
+    fromChainlinkSourcesRegistry: false,
+    lastPriceUsd: 1,
+    cumulativeUsdPriceHours: 0,
+    resetTimestamp: 0,
+    resetCumulativeUsdPriceHours: 0,
+  });
+  // Token 1 carries three times the voting power of token 2.
+  for (const [tokenId, lockedAmount] of [
+    ['1', 3000n],
+    ['2', 1000n],
+  ] as const) {
+    mockDb = mockDb.entities.DustLockToken.set({
+      id: tokenId,
+      owner: ADDRESSES.user,
+      lockedAmount,
+      end: 0,
+      isPermanent: true,
+      createdAt: 100 * WEEK,
+      updatedAt: 100 * WEEK,
+      lastDepositType: undefined,
+      selfRepayEnabled: false,
+      rewardReceiver: undefined,
+    });
+    const enable = TestHelpers.RevenueReward.SelfRepayingLoanUpdate.createMockEvent({
+      token: BigInt(tokenId),
+      rewardReceiver: ADDRESSES.vault,
+      isEnabled: true,
+      ...eventData(20, 100 * WEEK, ADDRESSES.revenueReward),
+    });
+    mockDb = await TestHelpers.RevenueReward.SelfRepayingLoanUpdate.processEvent({
+      event: enable,
+      mockDb,
+    });
+  }
+
+  const repay = async (amount: bigint, debtLeft: bigint, block: number, timestamp: number) => {
+    mockDb = mockDb.entities.UserReserve.set({
+      id: `${ADDRESSES.user}-${reserveId}`,
+      pool_id: 'pool',
+      user_id: ADDRESSES.user,
+      reserve_id: reserveId,
+      scaledATokenBalance: 0n,
+      currentATokenBalance: 0n,
+      scaledVariableDebt: debtLeft,
+      currentVariableDebt: debtLeft,
+      principalStableDebt: 0n,
+      currentStableDebt: 0n,
+      currentTotalDebt: debtLeft,
+      stableBorrowRate: 0n,
+      oldStableBorrowRate: 0n,
+      liquidityRate: 0n,
+      variableBorrowIndex: 10n ** 27n,
+      usageAsCollateralEnabledOnUser: false,
+      lastUpdateTimestamp: timestamp,
+      stableBorrowLastUpdateTimestamp: 0,
+    });
+    const event = TestHelpers.UserVault.LoanSelfRepaid.createMockEvent({
+      user: ADDRESSES.user,
+      vault: ADDRESSES.vault,
+      debtAsset: ADDRESSES.debtAsset,
+      collateralAsset: ADDRESSES.collateralAsset,
+      amount,
+      ...eventData(block, timestamp, ADDRESSES.vault),
+    });
+    mockDb = await TestHelpers.UserVault.LoanSelfRepaid.processEvent({ event, mockDb });
+  };
+
+  await repay(100n * UNIT, 900n * UNIT, 21, 100 * WEEK + 10);
+  const vaultId = `vault-${ADDRESSES.vault}`;
+  const first = mockDb.entities.SelfRepayAnalytics.get(vaultId);
+  assert.equal(first?.repaidUsd, 100);
+  assert.equal(first?.outstandingDebtUsd, 900);
+  assert.equal(first?.debtReserve_id, reserveId);
+  assert.equal(first?.projectedPayoffAt, 100 * WEEK + 10 + 9 * WEEK);
+
+  await repay(100n * UNIT, 800n * UNIT, 22, 101 * WEEK + 10);
+  const vault = mockDb.entities.SelfRepayAnalytics.get(vaultId);
+  assert.equal(vault?.repaymentCount, 2);
+  assert.equal(vault?.averageRepaidUsdPerEpoch, 100);
+  assert.equal(vault?.projectedPayoffAt, 101 * WEEK + 10 + 8 * WEEK);
+
+  const token = mockDb.entities.SelfRepayAnalytics.get('token-1');
+  assert.equal(token?.scope, 'veNFT');
+  assert.equal(token?.tokenId, 1n);
+  assert.equal(token?.repaidUsd, 150);
+  assert.equal(token?.averageRepaidUsdPerEpoch, 75);
+  // Each lock carries its voting-power share of the debt, so both pay off with the vault.
+  assert.equal(token?.outstandingDebtUsd, 600);
+  assert.equal(token?.projectedPayoffAt, vault?.projectedPayoffAt);
+  const smallToken = mockDb.entities.SelfRepayAnalytics.get('token-2');
+  assert.equal(smallToken?.repaidUsd, 50);
+  assert.equal(smallToken?.outstandingDebtUsd, 200);
+  assert.equal(smallToken?.projectedPayoffAt, vault?.projectedPayoffAt);
+});
+
+test('dust transfers maintain holder balances, count, and distribution', async () => {
+  const TestHelpers = loadTestHelpers();
+  let mockDb = TestHelpers.MockDb.createMockDb();
+  const eventData = createEventDataFactory();
+  const UNIT = 10n ** 18n;
+
+  const transfers = [
+    { from: ZERO_ADDRESS, to: ADDRESSES.dustTokenOwner, value: 1000n * UNIT },
+    { from: ZERO_ADDRESS, to: ADDRESSES.user, value: 3n * UNIT },
+    { from: ADDRESSES.dustTokenOwner, to: ADDRESSES.to, value: 1000n * UNIT },
+    { from: ADDRESSES.user, to: ADDRESSES.to, value: 2n * UNIT },
+  ];
+  for (const [i, transfer] of transfers.entries()) {
+    const event = TestHelpers.DustToken.Transfer.createMockEvent({
+      ...transfer,
+      ...eventData(30 + i, 1000 + i * 10, ADDRESSES.dustToken),
+    });
+    mockDb = await TestHelpers.DustToken.Transfer.processEvent({ event, mockDb });
+  }
+
+  const owner = mockDb.entities.DustBalance.get(ADDRESSES.dustTokenOwner);
+  assert.equal(owner?.balance, 0n);
+  assert.equal(owner?.bucketIndex, -1);
+  const whale = mockDb.entities.DustBalance.get(ADDRESSES.to);
+  assert.equal(whale?.balance, 1002n * UNIT);
+  assert.equal(whale?.firstReceivedAt, 1020);
+  assert.equal(mockDb.entities.DustBalance.get(ADDRESSES.user)?.balance, 1n * UNIT);
+  assert.equal(mockDb.entities.DustTokenStat.get('dust-token-stats')?.holderCount, 2);
+
+  // 1002 DUST -> [512, 1024); 1 DUST -> [1, 2); 3 DUST left [2, 4) empty.
+  const whaleBucket = mockDb.entities.DustHolderDistribution.get('12');
+  assert.equal(whaleBucket?.holderCount, 1);
+  assert.equal(whaleBucket?.totalBalance, 1002n * UNIT);
+  assert.deepEqual([whaleBucket?.lower, whaleBucket?.upper], [512, 1024]);
+  assert.equal(mockDb.entities.DustHolderDistribution.get('3')?.holderCount, 1);
+  const emptied = mockDb.entities.DustHolderDistribution.get('4');
+  assert.equal(emptied?.holderCount, 0);
+  assert.equal(emptied?.totalBalance, 0n);
+});
+
+test('dust supply snapshots derive circulating supply from excluded holders', async () => {
+  const TestHelpers = loadTestHelpers();
+  let mockDb = TestHelpers.MockDb.createMockDb();
+  const eventData = createEventDataFactory();
+  const UNIT = 10n ** 18n;
+  // Bootstrapped by the handler as a tracked DUST pool; its V2 reserves are
+  // stale because the pair's Sync would only follow the DUST Transfer.
+  const pool = BOOTSTRAP_LP_POOL_CONFIGS[0].pool;
+  mockDb = mockDb.entities.LPPoolV2State.set({
+    id: pool,
+    pool,
+    reserve0: 0n,
+    reserve1: 0n,
+    lpTotalSupply: 0n,
+    lastUpdate: 0,
+  });
+
+  const transfers = [
+    { from: ZERO_ADDRESS, to: ADDRESSES.user, value: 1000n * UNIT },
+    { from: ADDRESSES.user, to: DUST_LOCK_ADDRESS, value: 300n * UNIT },
+    { from: ZERO_ADDRESS, to: TREASURY_ADDRESSES[0], value: 200n * UNIT },
+    { from: ADDRESSES.user, to: pool, value: 100n * UNIT },
+    { from: ADDRESSES.user, to: ZERO_ADDRESS, value: 50n * UNIT },
+  ];
+  for (const [i, transfer] of transfers.entries()) {
+    const event = TestHelpers.DustToken.Transfer.createMockEvent({
+      ...transfer,
+      ...eventData(40 + i, 86400 + 3000 + i * 300, ADDRESSES.dustToken),
+    });
+    mockDb = await TestHelpers.DustToken.Transfer.processEvent({ event, mockDb });
+  }
+
+  assert.equal(mockDb.entities.DustTokenStat.get('dust-token-stats')?.totalSupply, 1150n * UNIT);
+
+  const hour = mockDb.entities.DustSupplySnapshot.get('hour-90000');
+  assert.equal(hour?.totalSupply, 1150n * UNIT);
+  assert.equal(hour?.lockedInDustLock, 300n * UNIT);
+  assert.equal(hour?.treasuryHeld, 200n * UNIT);
+  assert.equal(hour?.excludedHeld, 0n);
+  assert.equal(hour?.lpHeld, 100n * UNIT);
+  assert.equal(hour?.circulatingSupply, 550n * UNIT);
+
+  // The previous hour closed after the DustLock deposit, before treasury and LP.
+  assert.equal(
+    mockDb.entities.DustSupplySnapshot.get('hour-86400')?.circulatingSupply,
+    700n * UNIT
+  );
+  const day = mockDb.entities.DustSupplySnapshot.get('day-86400');
+  assert.equal(day?.period, 'day');
+  assert.equal(day?.circulatingSupply, 550n * UNIT);
+});
+
+test('dust supply snapshots count an address in several categories once', async () => {
+  const UNIT = 10n ** 18n;
+  const treasury = TREASURY_ADDRESSES[0];
+  const balances = new Map([
+    [DUST_LOCK_ADDRESS, 300n * UNIT],
+    [treasury, 200n * UNIT],
+  ]);
+  const snapshots = new Map<string, DustSupplySnapshot>();
+  // The treasury address is also registered as a DUST LP pool.
+  const context = {
+    DustBalance: { get: async (id: string) => ({ balance: balances.get(id) ?? 0n }) },
+    LPPoolRegistry: { get: async () => ({ poolIds: [treasury, DUST_LOCK_ADDRESS] }) },
+    LPPoolConfig: {
+      get: async (id: string) => ({ id, token0: DUST_TOKEN_ADDRESS, token1: ZERO_ADDRESS }),
+    },
+    DustSupplySnapshot: {
+      set: (snapshot: DustSupplySnapshot) => snapshots.set(snapshot.id, snapshot),
+    },
+  } as unknown as handlerContext;
+
+  await recordDustSupplySnapshot(context, 1000n * UNIT, 3600);
+
+  const hour = snapshots.get('hour-3600');
+  assert.equal(hour?.lockedInDustLock, 300n * UNIT);
+  assert.equal(hour?.treasuryHeld, 200n * UNIT);
+  assert.equal(hour?.lpHeld, 0n);
+  assert.equal(hour?.circulatingSupply, 500n * UNIT);
+});
+
+test('dust supply snapshots take the Balancer pool DUST from its reserves', async () => {
+  const UNIT = 10n ** 18n;
+  const pool = BALANCER_AUTORANGE_V3_POOL_ADDRESS;
+  const snapshots = new Map<string, DustSupplySnapshot>();
+  // The vault, not the pool address, holds the DUST.
+  const context = {
+    DustBalance: { get: async () => undefined },
+    LPPoolRegistry: { get: async () => ({ poolIds: [pool] }) },
+    LPPoolConfig: {
+      get: async (id: string) => ({ id, token0: ZERO_ADDRESS, token1: DUST_TOKEN_ADDRESS }),
+    },
+    LPPoolV2State: {
+      get: async () => ({ id: pool, pool, reserve0: 5n * UNIT, reserve1: 40n * UNIT }),
+    },
+    DustSupplySnapshot: {
+      set: (snapshot: DustSupplySnapshot) => snapshots.set(snapshot.id, snapshot),
+    },
+  } as unknown as handlerContext;
+
+  await recordDustSupplySnapshot(context, 1000n * UNIT, 3600);
+
+  const hour = snapshots.get('hour-3600');
+  assert.equal(hour?.lpHeld, 40n * UNIT);
+  assert.equal(hour?.circulatingSupply, 960n * UNIT);
+});
@@ -62,6 +62,8 @@ import type {
   UserMultiplierSnapshot,
   UserNFTOwnership,
   UserPoints,
+  UserHealthHolder,
+  UserHealthHolderRegistry,
   UserReserveList,
   UserSpecialEditionState,
   UserTokenList,
@@ -147,7 +149,13 @@ test('protocol stats snapshots overwrite within the same timestamp', async () =>
 
 test('reserve list helpers update timestamps for existing entries', async () => {
   const reserveStore = createStore<UserReserveList>();
-  const context = { UserReserveList: reserveStore } as unknown as handlerContext;
+  const holderStore = createStore<UserHealthHolder>();
+  const holderRegistryStore = createStore<UserHealthHolderRegistry>();
+  const context = {
+    UserReserveList: reserveStore,
+    UserHealthHolder: holderStore,
+    UserHealthHolderRegistry: holderRegistryStore,
+  } as unknown as handlerContext;
 
   await addReserveToUserList(context, '0xuser', 'reserve-1', 1);
   await addReserveToUserList(context, '0xuser', 'reserve-1', 2);
@@ -156,6 +164,9 @@ test('reserve list helpers update timestamps for existing entries', async () =>
   assert.ok(list);
   assert.equal(list?.reserveIds.length, 1);
   assert.equal(list?.lastUpdate, 2);
+  // The user takes one holder slot, however often the reserve is touched.
+  assert.equal((await holderRegistryStore.get('reserve-1'))?.holderCount, 1);
+  assert.equal((await holderStore.get('reserve-1-0'))?.user_id, '0xuser');
 });
 
 test('asset price helpers set defaults and fallback to priceInEth', async () => {
@@ -168,6 +168,121 @@ test('price observed normalizes price and records history', async () => {
   assert.equal(updated?.isFallbackRequired, false);
 });
 
+test('price observations maintain oracle health', async () => {
+  const TestHelpers = loadTestHelpers();
+  let mockDb = TestHelpers.MockDb.createMockDb();
+  const eventData = createEventDataFactory();
+
+  const observe = async (price: bigint, ok: boolean, block: number, timestamp: number) => {
+    const event = TestHelpers.AToken.PriceObserved.createMockEvent({
+      asset: ADDRESSES.asset,
+      price,
+      baseUnit: 100000000n,
+      oracle: ADDRESSES.oracle,
+      action: 0,
+      ok,
+      user: ADDRESSES.fromUser,
+      timestamp,
+      ...eventData(block, timestamp, ADDRESSES.stableToken),
+    });
+    mockDb = await TestHelpers.AToken.PriceObserved.processEvent({ event, mockDb });
+  };
+
+  // A DEX price seen before the first oracle read is picked up by the new row.
+  mockDb = mockDb.entities.DexPrice.set({
+    id: ADDRESSES.asset,
+    token: ADDRESSES.asset,
+    pool: ADDRESSES.pool,
+    priceUsd: 5,
+    updatedAt: 50,
+  });
+  await observe(500000000n, true, 1, 100);
+  const first = mockDb.entities.OracleHealth.get(ADDRESSES.asset);
+  assert.equal(first?.dexPriceUsd, 5);
+  assert.equal(first?.dexDeviation, 0);
+  await observe(0n, false, 2, 250);
+
+  const stale = mockDb.entities.OracleHealth.get(ADDRESSES.asset);
+  assert.ok(stale);
+  assert.equal(stale.oracle, ADDRESSES.oracle);
+  assert.equal(stale.observationCount, 2);
+  assert.equal(stale.failedReadCount, 1);
+  assert.equal(stale.consecutiveFailures, 1);
+  assert.equal(stale.lastPriceUsd, 5);
+  assert.equal(stale.lastFailureAt, 250);
+  assert.equal(stale.secondsSinceLastSuccess, 150);
+
+  // DEX-side price as recorded from the tracked LP pools.
+  mockDb = mockDb.entities.OracleHealth.set({
+    ...stale,
+    dexPool: ADDRESSES.pool,
+    dexPriceUsd: 5,
+    dexPriceUpdatedAt: 260,
+  });
+
+  await observe(600000000n, true, 3, 400);
+
+  const health = mockDb.entities.OracleHealth.get(ADDRESSES.asset);
+  assert.equal(health?.consecutiveFailures, 0);
+  assert.equal(health?.failedReadCount, 1);
+  assert.equal(health?.lastSuccessAt, 400);
+  assert.equal(health?.secondsSinceLastSuccess, 0);
+  assert.equal(health?.maxStalenessSeconds, 300);
+  assert.ok(Math.abs((health?.lastPriceJump ?? 0) - 0.2) < 1e-9);
+  assert.equal(health?.maxPriceJumpAt, 400);
+  assert.ok(Math.abs((health?.dexDeviation ?? 0) - 0.2) < 1e-9);
+  assert.ok(Math.abs((health?.maxDexDeviation ?? 0) - 0.2) < 1e-9);
+});
+
+test('price observations roll into hourly and daily candles', async () => {
+  const TestHelpers = loadTestHelpers();
+  let mockDb = TestHelpers.MockDb.createMockDb();
+  const eventData = createEventDataFactory();
+
+  const observe = async (price: bigint, ok: boolean, block: number, timestamp: number) => {
+    const event = TestHelpers.AToken.PriceObserved.createMockEvent({
+      asset: ADDRESSES.asset,
+      price,
+      baseUnit: 100000000n,
+      oracle: ADDRESSES.oracle,
+      action: 0,
+      ok,
+      user: ADDRESSES.fromUser,
+      timestamp,
+      ...eventData(block, timestamp, ADDRESSES.stableToken),
+    });
+    mockDb = await TestHelpers.AToken.PriceObserved.processEvent({ event, mockDb });
+  };
+
+  const day = 86400 * 20;
+  await observe(200000000n, true, 1, day + 60);
+  await observe(300000000n, true, 2, day + 120);
+  await observe(1n, false, 3, day + 180);
+  await observe(150000000n, true, 4, day + 240);
+  await observe(250000000n, true, 5, day + 3600);
+
+  const firstHour = mockDb.entities.AssetPriceCandle.get(`${ADDRESSES.asset}-1h-${day}`);
+  assert.ok(firstHour);
+  assert.equal(firstHour.resolution, '1h');
+  assert.equal(firstHour.priceUsdOpen, 2);
+  assert.equal(firstHour.priceUsdHigh, 3);
+  assert.equal(firstHour.priceUsdLow, 1.5);
+  assert.equal(firstHour.priceUsdClose, 1.5);
+  assert.equal(firstHour.observationCount, 3);
+
+  const secondHour = mockDb.entities.AssetPriceCandle.get(`${ADDRESSES.asset}-1h-${day + 3600}`);
+  assert.equal(secondHour?.priceUsdOpen, 2.5);
+  assert.equal(secondHour?.observationCount, 1);
+
+  const daily = mockDb.entities.AssetPriceCandle.get(`${ADDRESSES.asset}-1d-${day}`);
+  assert.equal(daily?.priceUsdOpen, 2);
+  assert.equal(daily?.priceUsdHigh, 3);
+  assert.equal(daily?.priceUsdLow, 1.5);
+  assert.equal(daily?.priceUsdClose, 2.5);
+  assert.equal(daily?.observationCount, 4);
+  assert.equal(daily?.updatedAt, day + 3600);
+});
+
 test('gateway withdrawals attribute redeem to actual user', async () => {
   const TestHelpers = loadTestHelpers();
   let mockDb = TestHelpers.MockDb.createMockDb();
@@ -1090,6 +1205,117 @@ test('variable and stable debt flows update points and reserves', async () => {
   assert.equal(user?.borrowedReservesCount, 0);
 });
 
+test('index growth between balance changes accrues realized interest per user reserve', async () => {
+  const TestHelpers = loadTestHelpers();
+  let mockDb = TestHelpers.MockDb.createMockDb();
+  const eventData = createEventDataFactory();
+
+  const reserveId = `${ADDRESSES.asset}-${ADDRESSES.pool}`;
+  const userReserveId = `${ADDRESSES.fromUser}-${reserveId}`;
+  mockDb = mockDb.entities.Reserve.set({
+    ...createDefaultReserve(reserveId, ADDRESSES.pool, ADDRESSES.asset),
+    decimals: DECIMALS,
+    liquidityIndex: RAY,
+    variableBorrowIndex: RAY,
+  });
+  for (const token of [ADDRESSES.aToken, ADDRESSES.variableToken, ADDRESSES.stableToken]) {
+    mockDb = mockDb.entities.SubToken.set({
+      id: token,
+      pool_id: ADDRESSES.pool,
+      tokenContractImpl: undefined,
+      underlyingAssetAddress: ADDRESSES.asset,
+      underlyingAssetDecimals: DECIMALS,
+    });
+  }
+  mockDb = mockDb.entities.PriceOracleAsset.set({
+    id: ADDRESSES.asset,
+    oracle_id: '',
+    priceSource: '',
+    dependentAssets: [],
+    priceType: '',
+    platform: '',
+    priceInEth: 200000000n,
+    isFallbackRequired: false,
+    lastUpdateTimestamp: 1000,
+    priceCacheExpiry: 0,
+    fromChainlinkSourcesRegistry: false,
+    lastPriceUsd: 2,
+    cumulativeUsdPriceHours: 0,
+    resetTimestamp: 0,
+    resetCumulativeUsdPriceHours: 0,
+  });
+
+  const supply = TestHelpers.AToken.Mint.createMockEvent({
+    caller: ADDRESSES.fromUser,
+    onBehalfOf: ADDRESSES.fromUser,
+    value: 1000n * UNIT,
+    balanceIncrease: 0n,
+    index: RAY,
+    ...eventData(50, 1000, ADDRESSES.aToken),
+  });
+  mockDb = await TestHelpers.AToken.Mint.processEvent({ event: supply, mockDb });
+
+  let interest = mockDb.entities.UserReserveInterest.get(userReserveId);
+  assert.equal(interest?.interestEarned, 0n);
+  assert.equal(interest?.lastLiquidityIndex, RAY);
+
+  const topUp = TestHelpers.AToken.Mint.createMockEvent({
+    caller: ADDRESSES.fromUser,
+    onBehalfOf: ADDRESSES.fromUser,
+    value: 200n * UNIT,
+    balanceIncrease: 100n * UNIT,
+    index: (RAY * 11n) / 10n,
+    ...eventData(51, 2000, ADDRESSES.aToken),
+  });
+  mockDb = await TestHelpers.AToken.Mint.processEvent({ event: topUp, mockDb });
+
+  const borrow = TestHelpers.VariableDebtToken.Mint.createMockEvent({
+    caller: ADDRESSES.fromUser,
+    onBehalfOf: ADDRESSES.fromUser,
+    value: 500n * UNIT,
+    balanceIncrease: 0n,
+    index: RAY,
+    ...eventData(52, 3000, ADDRESSES.variableToken),
+  });
+  mockDb = await TestHelpers.VariableDebtToken.Mint.processEvent({ event: borrow, mockDb });
+
+  const repay = TestHelpers.VariableDebtToken.Burn.createMockEvent({
+    from: ADDRESSES.fromUser,
+    target: ADDRESSES.fromUser,
+    value: 500n * UNIT,
+    balanceIncrease: 100n * UNIT,
+    index: (RAY * 12n) / 10n,
+    ...eventData(53, 4000, ADDRESSES.variableToken),
+  });
+  mockDb = await TestHelpers.VariableDebtToken.Burn.processEvent({ event: repay, mockDb });
+
+  const stableBorrow = TestHelpers.StableDebtToken.Mint.createMockEvent({
+    user: ADDRESSES.fromUser,
+    onBehalfOf: ADDRESSES.fromUser,
+    amount: 55n * UNIT,
+    currentBalance: 0n,
+    balanceIncrease: 5n * UNIT,
+    newRate: 2n,
+    avgStableRate: 2n,
+    newTotalSupply: 55n * UNIT,
+    ...eventData(54, 5000, ADDRESSES.stableToken),
+  });
+  mockDb = await TestHelpers.StableDebtToken.Mint.processEvent({ event: stableBorrow, mockDb });
+
+  interest = mockDb.entities.UserReserveInterest.get(userReserveId);
+  assert.ok(interest);
+  assert.equal(interest.user_id, ADDRESSES.fromUser);
+  assert.equal(interest.reserve_id, reserveId);
+  assert.equal(interest.interestEarned, 100n * UNIT);
+  assert.equal(interest.interestEarnedUsd, 200);
+  assert.equal(interest.lastLiquidityIndex, (RAY * 11n) / 10n);
+  assert.equal(interest.variableInterestPaid, 100n * UNIT);
+  assert.equal(interest.stableInterestPaid, 5n * UNIT);
+  assert.equal(interest.interestPaidUsd, 210);
+  assert.equal(interest.lastVariableBorrowIndex, (RAY * 12n) / 10n);
+  assert.equal(interest.updatedAt, 5000);
+});
+
 test('debt token initialization updates subtoken mapping', async () => {
   const TestHelpers = loadTestHelpers();
   let mockDb = TestHelpers.MockDb.createMockDb();
@@ -0,0 +1,363 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+
+import { USER_HEALTH_MAX_REFRESHES_PER_PRICE } from '../helpers/constants';
+import { createDefaultReserve } from '../helpers/entityHelpers';
+import { calculateHealthFactor, getUserHealthId } from '../helpers/userHealth';
+import { TestHelpers, type MockDb } from './v3-test-helpers';
+
+process.env.ENVIO_ENABLE_EXTERNAL_CALLS = 'false';
+process.env.ENVIO_ENABLE_ETH_CALLS = 'false';
+
+const RAY = 10n ** 27n;
+const DECIMALS = 6;
+const UNIT = 10n ** 6n;
+
+const ADDRESSES = {
+  pool: '0x0000000000000000000000000000000000007001',
+  collateralAsset: '0x0000000000000000000000000000000000007002',
+  debtAsset: '0x0000000000000000000000000000000000007003',
+  aToken: '0x0000000000000000000000000000000000007004',
+  vToken: '0x0000000000000000000000000000000000007005',
+  user: '0x0000000000000000000000000000000000007006',
+  oracle: '0x0000000000000000000000000000000000007007',
+};
+
+function createEventDataFactory() {
+  let counter = 1;
+  return (blockNumber: number, timestamp: number, srcAddress: string) => {
+    const txHash = `0x${counter.toString(16).padStart(64, '0')}`;
+    const mockEventData = {
+      block: { number: blockNumber, timestamp },
+      logIndex: counter,
+      srcAddress,
+      transaction: { hash: txHash },
+    };
+    counter += 1;
+    return { mockEventData };
+  };
+}
+
+function seedReserve(
+  mockDb: MockDb,
+  params: {
+    asset: string;
+    subToken: string;
+    priceE8: bigint;
+    liquidationThreshold: bigint;
+    ltv: bigint;
+    eModeId?: string;
+  }
+): MockDb {
+  const reserveId = `${params.asset}-${ADDRESSES.pool}`;
+  let nextDb = mockDb.entities.Reserve.set({
+    ...createDefaultReserve(reserveId, ADDRESSES.pool, params.asset),
+    decimals: DECIMALS,
+    liquidityIndex: RAY,
+    variableBorrowIndex: RAY,
+    reserveLiquidationThreshold: params.liquidationThreshold,
+    baseLTVasCollateral: params.ltv,
+    usageAsCollateralEnabled: params.ltv > 0n,
+    priceInUsd: Number(params.priceE8) / 1e8,
+    priceInUsdE8: params.priceE8,
+    eMode_id: params.eModeId,
+    lastUpdateTimestamp: 1000,
+  });
+  nextDb = nextDb.entities.SubToken.set({
+    id: params.subToken,
+    pool_id: ADDRESSES.pool,
+    tokenContractImpl: undefined,
+    underlyingAssetAddress: params.asset,
+    underlyingAssetDecimals: DECIMALS,
+  });
+  nextDb = nextDb.entities.PriceOracleAsset.set({
+    id: params.asset,
+    oracle_id: '',
+    priceSource: '',
+    dependentAssets: [],
+    priceType: '',
+    platform: '',
+    priceInEth: params.priceE8,
+    isFallbackRequired: false,
+    lastUpdateTimestamp: 1000,
+    priceCacheExpiry: 0,
+    fromChainlinkSourcesRegistry: false,
+    lastPriceUsd: Number(params.priceE8) / 1e8,
+    cumulativeUsdPriceHours: 0,
+    resetTimestamp: 0,
+    resetCumulativeUsdPriceHours: 0,
+  });
+  return nextDb;
+}
+
+async function seedPosition(eventData: ReturnType<typeof createEventDataFactory>) {
+  let mockDb: MockDb = TestHelpers.MockDb.createMockDb();
+  mockDb = seedReserve(mockDb, {
+    asset: ADDRESSES.collateralAsset,
+    subToken: ADDRESSES.aToken,
+    priceE8: 200000000n,
+    liquidationThreshold: 8000n,
+    ltv: 7500n,
+  });
+  mockDb = seedReserve(mockDb, {
+    asset: ADDRESSES.debtAsset,
+    subToken: ADDRESSES.vToken,
+    priceE8: 100000000n,
+    liquidationThreshold: 0n,
+    ltv: 0n,
+  });
+
+  const supply = TestHelpers.AToken.Mint.createMockEvent({
+    caller: ADDRESSES.user,
+    onBehalfOf: ADDRESSES.user,
+    value: 1000n * UNIT,
+    balanceIncrease: 0n,
+    index: RAY,
+    ...eventData(1, 1001, ADDRESSES.aToken),
+  });
+  mockDb = await TestHelpers.AToken.Mint.processEvent({ event: supply, mockDb });
+
+  const enable = TestHelpers.Pool.ReserveUsedAsCollateralEnabled.createMockEvent({
+    reserve: ADDRESSES.collateralAsset,
+    user: ADDRESSES.user,
+    ...eventData(2, 1002, ADDRESSES.pool),
+  });
+  mockDb = await TestHelpers.Pool.ReserveUsedAsCollateralEnabled.processEvent({
+    event: enable,
+    mockDb,
+  });
+
+  const borrow = TestHelpers.VariableDebtToken.Mint.createMockEvent({
+    caller: ADDRESSES.user,
+    onBehalfOf: ADDRESSES.user,
+    value: 1000n * UNIT,
+    balanceIncrease: 0n,
+    index: RAY,
+    ...eventData(3, 1003, ADDRESSES.vToken),
+  });
+  mockDb = await TestHelpers.VariableDebtToken.Mint.processEvent({ event: borrow, mockDb });
+  return mockDb;
+}
+
+test('health factor is undefined without debt and scales with weighted collateral', () => {
+  assert.equal(calculateHealthFactor(100n, 0n), undefined);
+  // $2000 collateral at 80% threshold against $1000 debt
+  assert.equal(calculateHealthFactor(2000n * 8000n, 1000n), 1.6);
+});
+
+test('balance changes refresh user health and hourly history', async () => {
+  const eventData = createEventDataFactory();
+  const mockDb = await seedPosition(eventData);
+
+  const healthId = getUserHealthId(ADDRESSES.user, ADDRESSES.pool);
+  const health = mockDb.entities.UserHealth.get(healthId);
+  assert.ok(health);
+  assert.equal(health?.totalCollateralUsd, 2000);
+  assert.equal(health?.totalDebtUsd, 1000);
+  assert.equal(health?.currentLiquidationThreshold, 8000n);
+  assert.equal(health?.ltv, 7500n);
+  assert.equal(health?.healthFactor, 1.6);
+  assert.equal(health?.isLiquidatable, false);
+
+  const history = mockDb.entities.UserHealthHistory.get(`${healthId}-0`);
+  assert.ok(history);
+  assert.equal(history?.healthFactor, 1.6);
+  assert.equal(history?.lastUpdateTs, 1003);
+});
+
+test('price drops and collateral config changes refresh every holder', async () => {
+  const eventData = createEventDataFactory();
+  let mockDb = await seedPosition(eventData);
+  const healthId = getUserHealthId(ADDRESSES.user, ADDRESSES.pool);
+
+  const priceDrop = TestHelpers.AToken.PriceObserved.createMockEvent({
+    asset: ADDRESSES.collateralAsset,
+    price: 120000000n,
+    baseUnit: 100000000n,
+    oracle: ADDRESSES.oracle,
+    action: 0,
+    ok: true,
+    user: ADDRESSES.user,
+    timestamp: 4000,
+    ...eventData(4, 4000, ADDRESSES.aToken),
+  });
+  mockDb = await TestHelpers.AToken.PriceObserved.processEvent({ event: priceDrop, mockDb });
+
+  const reserveId = `${ADDRESSES.collateralAsset}-${ADDRESSES.pool}`;
+  assert.equal(mockDb.entities.Reserve.get(reserveId)?.priceInUsd, 1.2);
+  let health = mockDb.entities.UserHealth.get(healthId);
+  assert.equal(health?.totalCollateralUsd, 1200);
+  assert.ok(Math.abs((health?.healthFactor ?? 0) - 0.96) < 1e-9);
+  assert.equal(health?.isLiquidatable, true);
+  assert.ok(mockDb.entities.UserHealthHistory.get(`${healthId}-3600`));
+
+  const config = TestHelpers.PoolConfigurator.CollateralConfigurationChanged.createMockEvent({
+    asset: ADDRESSES.collateralAsset,
+    ltv: 8500n,
+    liquidationThreshold: 9000n,
+    liquidationBonus: 10500n,
+    ...eventData(5, 4001, ADDRESSES.pool),
+  });
+  mockDb = await TestHelpers.PoolConfigurator.CollateralConfigurationChanged.processEvent({
+    event: config,
+    mockDb,
+  });
+
+  health = mockDb.entities.UserHealth.get(healthId);
+  assert.equal(health?.currentLiquidationThreshold, 9000n);
+  assert.equal(health?.ltv, 8500n);
+  assert.ok(Math.abs((health?.healthFactor ?? 0) - 1.08) < 1e-9);
+  assert.equal(health?.isLiquidatable, false);
+});
+
+test('failed or unchanged oracle reads skip the holder health sweep', async () => {
+  const eventData = createEventDataFactory();
+  let mockDb = await seedPosition(eventData);
+  const healthId = getUserHealthId(ADDRESSES.user, ADDRESSES.pool);
+  const reserveId = `${ADDRESSES.collateralAsset}-${ADDRESSES.pool}`;
+
+  const observe = (price: bigint, ok: boolean, timestamp: number) =>
+    TestHelpers.AToken.PriceObserved.createMockEvent({
+      asset: ADDRESSES.collateralAsset,
+      price,
+      baseUnit: 100000000n,
+      oracle: ADDRESSES.oracle,
+      action: 0,
+      ok,
+      user: ADDRESSES.user,
+      timestamp,
+      ...eventData(timestamp, timestamp, ADDRESSES.aToken),
+    });
+
+  mockDb = await TestHelpers.AToken.PriceObserved.processEvent({
+    event: observe(50000000n, false, 4000),
+    mockDb,
+  });
+  mockDb = await TestHelpers.AToken.PriceObserved.processEvent({
+    event: observe(200000000n, true, 5000),
+    mockDb,
+  });
+  assert.equal(mockDb.entities.UserHealth.get(healthId)?.updatedAt, 1003);
+  assert.equal(mockDb.entities.UserHealthRefreshCursor.get(reserveId), undefined);
+
+  mockDb = await TestHelpers.AToken.PriceObserved.processEvent({
+    event: observe(120000000n, true, 6000),
+    mockDb,
+  });
+  assert.equal(mockDb.entities.UserHealth.get(healthId)?.updatedAt, 6000);
+  const cursor = mockDb.entities.UserHealthRefreshCursor.get(reserveId);
+  assert.equal(cursor?.cursorIndex, 0);
+  assert.equal(cursor?.lastSweepTimestamp, 6000);
+});
+
+test('price updates page through the holder index and catch every holder up', async () => {
+  const eventData = createEventDataFactory();
+  let mockDb = await seedPosition(eventData);
+  const healthId = getUserHealthId(ADDRESSES.user, ADDRESSES.pool);
+  const reserveId = `${ADDRESSES.collateralAsset}-${ADDRESSES.pool}`;
+  assert.equal(mockDb.entities.UserHealthHolder.get(`${reserveId}-0`)?.user_id, ADDRESSES.user);
+
+  // A full first page of other holders puts the user in the next page.
+  const holderCount = USER_HEALTH_MAX_REFRESHES_PER_PRICE + 1;
+  for (let slot = 0; slot < holderCount; slot += 1) {
+    const userId =
+      slot === USER_HEALTH_MAX_REFRESHES_PER_PRICE
+        ? ADDRESSES.user
+        : `0x${(0x8000 + slot).toString(16).padStart(40, '0')}`;
+    mockDb = mockDb.entities.UserHealthHolder.set({
+      id: `${reserveId}-${slot}`,
+      reserve_id: reserveId,
+      slot,
+      user_id: userId,
+      addedAt: 1000,
+    });
+  }
+  mockDb = mockDb.entities.UserHealthHolderRegistry.set({
+    id: reserveId,
+    holderCount,
+    lastUpdate: 1000,
+  });
+
+  const observe = (price: bigint, timestamp: number) =>
+    TestHelpers.AToken.PriceObserved.createMockEvent({
+      asset: ADDRESSES.collateralAsset,
+      price,
+      baseUnit: 100000000n,
+      oracle: ADDRESSES.oracle,
+      action: 0,
+      ok: true,
+      user: ADDRESSES.user,
+      timestamp,
+      ...eventData(timestamp, timestamp, ADDRESSES.aToken),
+    });
+
+  mockDb = await TestHelpers.AToken.PriceObserved.processEvent({
+    event: observe(120000000n, 4000),
+    mockDb,
+  });
+  assert.equal(mockDb.entities.UserHealth.get(healthId)?.updatedAt, 1003);
+  let cursor = mockDb.entities.UserHealthRefreshCursor.get(reserveId);
+  assert.equal(cursor?.cursorIndex, USER_HEALTH_MAX_REFRESHES_PER_PRICE);
+  assert.equal(cursor?.lastSweepTimestamp, 4000);
+
+  // The next price move reaches the user's page and completes the pass.
+  mockDb = await TestHelpers.AToken.PriceObserved.processEvent({
+    event: observe(110000000n, 5000),
+    mockDb,
+  });
+  const health = mockDb.entities.UserHealth.get(healthId);
+  assert.equal(health?.updatedAt, 5000);
+  assert.equal(health?.totalCollateralUsd, 1100);
+  cursor = mockDb.entities.UserHealthRefreshCursor.get(reserveId);
+  assert.equal(cursor?.cursorIndex, USER_HEALTH_MAX_REFRESHES_PER_PRICE - 1);
+  assert.equal(cursor?.lastSweepTimestamp, 5000);
+
+  // A collateral configuration change pages through the same cursor.
+  mockDb = await TestHelpers.PoolConfigurator.CollateralConfigurationChanged.processEvent({
+    event: TestHelpers.PoolConfigurator.CollateralConfigurationChanged.createMockEvent({
+      asset: ADDRESSES.collateralAsset,
+      ltv: 8500n,
+      liquidationThreshold: 9000n,
+      liquidationBonus: 10500n,
+      ...eventData(6000, 6000, ADDRESSES.pool),
+    }),
+    mockDb,
+  });
+  assert.equal(mockDb.entities.UserHealth.get(healthId)?.currentLiquidationThreshold, 9000n);
+  cursor = mockDb.entities.UserHealthRefreshCursor.get(reserveId);
+  assert.equal(cursor?.cursorIndex, USER_HEALTH_MAX_REFRESHES_PER_PRICE - 2);
+  assert.equal(cursor?.lastSweepTimestamp, 6000);
+});
+
+test('eMode category overrides thresholds for assets in the category', async () => {
+  const eventData = createEventDataFactory();
+  let mockDb = await seedPosition(eventData);
+  mockDb = mockDb.entities.EModeCategory.set({
+    id: '1',
+    ltv: 9000n,
+    liquidationThreshold: 9300n,
+    liquidationBonus: 10100n,
+    oracle: ADDRESSES.oracle,
+    label: 'stables',
+  });
+  mockDb = mockDb.entities.EModeCategoryConfig.set({
+    id: `${ADDRESSES.collateralAsset}-1`,
+    category_id: '1',
+    asset: ADDRESSES.collateralAsset,
+    collateral: true,
+    borrowable: true,
+  });
+
+  const setEMode = TestHelpers.Pool.UserEModeSet.createMockEvent({
+    user: ADDRESSES.user,
+    categoryId: 1n,
+    ...eventData(4, 1004, ADDRESSES.pool),
+  });
+  mockDb = await TestHelpers.Pool.UserEModeSet.processEvent({ event: setEMode, mockDb });
+
+  const health = mockDb.entities.UserHealth.get(getUserHealthId(ADDRESSES.user, ADDRESSES.pool));
+  assert.equal(health?.eModeCategoryId, '1');
+  assert.equal(health?.currentLiquidationThreshold, 9300n);
+  assert.equal(health?.ltv, 9000n);
+  assert.equal(health?.healthFactor, 1.86);
+});
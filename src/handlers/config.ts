@@ -1,10 +1,13 @@
 /**
  * Configuration Event Handlers
- * PoolAddressesProviderRegistry, PoolAddressesProvider, PoolConfigurator, UserVaultFactory, UserVault
+ * PoolAddressesProviderRegistry, PoolAddressesProvider, PoolConfigurator,
+ * DefaultReserveInterestRateStrategyV2, UserVaultFactory, UserVault
  */
 
 import { recordProtocolTransaction, getOrCreateUser, getOrCreateProtocolStats } from './shared';
 import { getHistoryEntityId } from '../helpers/entityHelpers';
+import { refreshUserHealthForReserve } from '../helpers/userHealth';
+import { updateReserveCapUtilization } from '../helpers/reserveCaps';
 import {
   POOL_ID,
   POOL_CONFIGURATOR_ID,
@@ -14,8 +17,13 @@ import {
   getTokenMetadata,
   normalizeAddress,
 } from '../helpers/constants';
+import { recordGovernanceAction } from '../helpers/governance';
+import { recordSelfRepayment } from '../helpers/selfRepayAnalytics';
+import { resolveStrategyCurve } from '../helpers/interestRateStrategy';
+import { bpsToRay } from '../helpers/math';
 
 import {
+  DefaultReserveInterestRateStrategyV2,
   PoolAddressesProvider,
   PoolAddressesProviderRegistry,
   PoolConfigurator,
@@ -58,6 +66,29 @@ function recordReserveConfigurationHistory(
   });
 }
 
+const EMPTY_STRATEGY_CURVE = {
+  optimalUsageRatio: 0n,
+  baseVariableBorrowRate: 0n,
+  variableRateSlope1: 0n,
+  variableRateSlope2: 0n,
+};
+
+function getStrategyCurveFields(curve: {
+  optimalUsageRatio: bigint;
+  baseVariableBorrowRate: bigint;
+  variableRateSlope1: bigint;
+  variableRateSlope2: bigint;
+}) {
+  return {
+    optimalUtilisationRate: curve.optimalUsageRatio,
+    baseVariableBorrowRate: curve.baseVariableBorrowRate,
+    variableRateSlope1: curve.variableRateSlope1,
+    variableRateSlope2: curve.variableRateSlope2,
+    stableRateSlope1: 0n,
+    stableRateSlope2: 0n,
+  };
+}
+
 async function resolvePoolId(context: handlerContext, contractAddress: string): Promise<string> {
   const normalized = normalizeAddress(contractAddress);
   const mapping = await context.ContractToPoolMapping.get(normalized);
@@ -203,6 +234,15 @@ PoolAddressesProvider.ProxyCreated.handler(async ({ event, context }) => {
     timestamp,
     BigInt(event.block.number)
   );
+  recordGovernanceAction(context, event, {
+    contractName: 'PoolAddressesProvider',
+    action: 'ProxyCreated',
+    target: event.params.id,
+    newValue: {
+      proxy: event.params.proxyAddress,
+      implementation: event.params.implementationAddress,
+    },
+  });
 
   const providerId = normalizeAddress(event.srcAddress);
   const proxyAddress = normalizeAddress(event.params.proxyAddress);
@@ -243,6 +283,12 @@ PoolAddressesProvider.PoolUpdated.handler(async ({ event, context }) => {
     timestamp,
     BigInt(event.block.number)
   );
+  recordGovernanceAction(context, event, {
+    contractName: 'PoolAddressesProvider',
+    action: 'PoolUpdated',
+    oldValue: event.params.oldAddress,
+    newValue: event.params.newAddress,
+  });
   const providerId = normalizeAddress(event.srcAddress);
   const pool = await getOrCreatePool(context, providerId, timestamp);
   // PoolUpdated.newAddress is the new IMPLEMENTATION behind the unchanged
@@ -262,6 +308,12 @@ PoolAddressesProvider.PoolConfiguratorUpdated.handler(async ({ event, context })
     timestamp,
     BigInt(event.block.number)
   );
+  recordGovernanceAction(context, event, {
+    contractName: 'PoolAddressesProvider',
+    action: 'PoolConfiguratorUpdated',
+    oldValue: event.params.oldAddress,
+    newValue: event.params.newAddress,
+  });
   const providerId = normalizeAddress(event.srcAddress);
   const pool = await getOrCreatePool(context, providerId, timestamp);
   // Same proxy-vs-impl split as PoolUpdated: newAddress is the implementation.
@@ -280,6 +332,12 @@ PoolAddressesProvider.PriceOracleUpdated.handler(async ({ event, context }) => {
     timestamp,
     BigInt(event.block.number)
   );
+  recordGovernanceAction(context, event, {
+    contractName: 'PoolAddressesProvider',
+    action: 'PriceOracleUpdated',
+    oldValue: event.params.oldAddress,
+    newValue: event.params.newAddress,
+  });
   const providerId = normalizeAddress(event.srcAddress);
   const pool = await getOrCreatePool(context, providerId, timestamp);
   context.Pool.set({
@@ -312,6 +370,12 @@ PoolAddressesProvider.PoolDataProviderUpdated.handler(async ({ event, context })
     timestamp,
     BigInt(event.block.number)
   );
+  recordGovernanceAction(context, event, {
+    contractName: 'PoolAddressesProvider',
+    action: 'PoolDataProviderUpdated',
+    oldValue: event.params.oldAddress,
+    newValue: event.params.newAddress,
+  });
   const providerId = normalizeAddress(event.srcAddress);
   const pool = await getOrCreatePool(context, providerId, timestamp);
   context.Pool.set({
@@ -324,6 +388,12 @@ PoolAddressesProvider.PoolDataProviderUpdated.handler(async ({ event, context })
 PoolAddressesProvider.ACLAdminUpdated.handler(async ({ event, context }) => {
   const timestamp = Number(event.block.timestamp);
   await recordProtocolTransaction(context, event.transaction.hash, timestamp);
+  recordGovernanceAction(context, event, {
+    contractName: 'PoolAddressesProvider',
+    action: 'ACLAdminUpdated',
+    oldValue: event.params.oldAddress,
+    newValue: event.params.newAddress,
+  });
   const providerId = normalizeAddress(event.srcAddress);
 
   const id = `${event.transaction.hash}-${event.logIndex}`;
@@ -347,6 +417,12 @@ PoolAddressesProvider.ACLAdminUpdated.handler(async ({ event, context }) => {
 PoolAddressesProvider.ACLManagerUpdated.handler(async ({ event, context }) => {
   const timestamp = Number(event.block.timestamp);
   await recordProtocolTransaction(context, event.transaction.hash, timestamp);
+  recordGovernanceAction(context, event, {
+    contractName: 'PoolAddressesProvider',
+    action: 'ACLManagerUpdated',
+    oldValue: event.params.oldAddress,
+    newValue: event.params.newAddress,
+  });
   const providerId = normalizeAddress(event.srcAddress);
 
   const id = `${event.transaction.hash}-${event.logIndex}`;
@@ -370,6 +446,13 @@ PoolAddressesProvider.ACLManagerUpdated.handler(async ({ event, context }) => {
 PoolAddressesProvider.AddressSet.handler(async ({ event, context }) => {
   const timestamp = Number(event.block.timestamp);
   await recordProtocolTransaction(context, event.transaction.hash, timestamp);
+  recordGovernanceAction(context, event, {
+    contractName: 'PoolAddressesProvider',
+    action: 'AddressSet',
+    target: event.params.id,
+    oldValue: event.params.oldAddress,
+    newValue: event.params.newAddress,
+  });
   const providerId = normalizeAddress(event.srcAddress);
 
   const addressId = event.params.id.toString();
@@ -400,6 +483,16 @@ PoolAddressesProvider.AddressSet.handler(async ({ event, context }) => {
 PoolAddressesProvider.AddressSetAsProxy.handler(async ({ event, context }) => {
   const timestamp = Number(event.block.timestamp);
   await recordProtocolTransaction(context, event.transaction.hash, timestamp);
+  recordGovernanceAction(context, event, {
+    contractName: 'PoolAddressesProvider',
+    action: 'AddressSetAsProxy',
+    target: event.params.id,
+    oldValue: event.params.oldImplementationAddress,
+    newValue: {
+      proxy: event.params.proxyAddress,
+      implementation: event.params.newImplementationAddress,
+    },
+  });
   const providerId = normalizeAddress(event.srcAddress);
 
   const addressId = event.params.id.toString();
@@ -425,6 +518,12 @@ PoolAddressesProvider.AddressSetAsProxy.handler(async ({ event, context }) => {
 PoolAddressesProvider.MarketIdSet.handler(async ({ event, context }) => {
   const timestamp = Number(event.block.timestamp);
   await recordProtocolTransaction(context, event.transaction.hash, timestamp);
+  recordGovernanceAction(context, event, {
+    contractName: 'PoolAddressesProvider',
+    action: 'MarketIdSet',
+    oldValue: event.params.oldMarketId,
+    newValue: event.params.newMarketId,
+  });
   const providerId = normalizeAddress(event.srcAddress);
 
   const id = `${event.transaction.hash}-${event.logIndex}`;
@@ -448,6 +547,12 @@ PoolAddressesProvider.MarketIdSet.handler(async ({ event, context }) => {
 PoolAddressesProvider.OwnershipTransferred.handler(async ({ event, context }) => {
   const timestamp = Number(event.block.timestamp);
   await recordProtocolTransaction(context, event.transaction.hash, timestamp);
+  recordGovernanceAction(context, event, {
+    contractName: 'PoolAddressesProvider',
+    action: 'OwnershipTransferred',
+    oldValue: event.params.previousOwner,
+    newValue: event.params.newOwner,
+  });
   const providerId = normalizeAddress(event.srcAddress);
 
   const id = `${event.transaction.hash}-${event.logIndex}`;
@@ -471,6 +576,12 @@ PoolAddressesProvider.OwnershipTransferred.handler(async ({ event, context }) =>
 PoolAddressesProvider.PriceOracleSentinelUpdated.handler(async ({ event, context }) => {
   const timestamp = Number(event.block.timestamp);
   await recordProtocolTransaction(context, event.transaction.hash, timestamp);
+  recordGovernanceAction(context, event, {
+    contractName: 'PoolAddressesProvider',
+    action: 'PriceOracleSentinelUpdated',
+    oldValue: event.params.oldAddress,
+    newValue: event.params.newAddress,
+  });
   const providerId = normalizeAddress(event.srcAddress);
 
   const id = `${event.transaction.hash}-${event.logIndex}`;
@@ -501,6 +612,11 @@ PoolConfigurator.ReserveInitialized.contractRegister(async ({ event, context })
   if (normalizeAddress(event.params.stableDebtToken) !== ZERO_ADDRESS) {
     context.addStableDebtToken(normalizeAddress(event.params.stableDebtToken));
   }
+  if (normalizeAddress(event.params.interestRateStrategyAddress) !== ZERO_ADDRESS) {
+    context.addDefaultReserveInterestRateStrategyV2(
+      normalizeAddress(event.params.interestRateStrategyAddress)
+    );
+  }
 });
 
 PoolConfigurator.ReserveInitialized.handler(async ({ event, context }) => {
@@ -510,6 +626,17 @@ PoolConfigurator.ReserveInitialized.handler(async ({ event, context }) => {
     Number(event.block.timestamp),
     BigInt(event.block.number)
   );
+  recordGovernanceAction(context, event, {
+    contractName: 'PoolConfigurator',
+    action: 'ReserveInitialized',
+    target: event.params.asset,
+    newValue: {
+      aToken: event.params.aToken,
+      stableDebtToken: event.params.stableDebtToken,
+      variableDebtToken: event.params.variableDebtToken,
+      interestRateStrategy: event.params.interestRateStrategyAddress,
+    },
+  });
 
   const actualPoolId = await resolvePoolId(context, event.srcAddress);
 
@@ -564,6 +691,14 @@ PoolConfigurator.ReserveInitialized.handler(async ({ event, context }) => {
     lastUpdate: timestamp,
   });
 
+  const curve = await resolveStrategyCurve(
+    context,
+    interestRateStrategy,
+    asset,
+    BigInt(event.block.number),
+    timestamp
+  );
+
   const reserveEntity = {
     id: reserveId,
     underlyingAsset: asset,
@@ -638,6 +773,7 @@ PoolConfigurator.ReserveInitialized.handler(async ({ event, context }) => {
     eMode_id: undefined,
     accruedToTreasury: 0n,
     unbacked: 0n,
+    ...(curve ? getStrategyCurveFields(curve) : {}),
   };
 
   context.Reserve.set(reserveEntity);
@@ -682,6 +818,12 @@ PoolConfigurator.ReserveBorrowing.handler(async ({ event, context }) => {
     Number(event.block.timestamp),
     BigInt(event.block.number)
   );
+  recordGovernanceAction(context, event, {
+    contractName: 'PoolConfigurator',
+    action: 'ReserveBorrowing',
+    target: event.params.asset,
+    newValue: event.params.enabled,
+  });
   const poolId = await resolvePoolId(context, event.srcAddress);
   const asset = normalizeAddress(event.params.asset);
   const reserveId = `${asset}-${poolId}`;
@@ -710,6 +852,16 @@ PoolConfigurator.CollateralConfigurationChanged.handler(async ({ event, context
     Number(event.block.timestamp),
     BigInt(event.block.number)
   );
+  recordGovernanceAction(context, event, {
+    contractName: 'PoolConfigurator',
+    action: 'CollateralConfigurationChanged',
+    target: event.params.asset,
+    newValue: {
+      ltv: event.params.ltv,
+      liquidationThreshold: event.params.liquidationThreshold,
+      liquidationBonus: event.params.liquidationBonus,
+    },
+  });
   const poolId = await resolvePoolId(context, event.srcAddress);
   const asset = normalizeAddress(event.params.asset);
   const reserveId = `${asset}-${poolId}`;
@@ -731,6 +883,7 @@ PoolConfigurator.CollateralConfigurationChanged.handler(async ({ event, context
       event.transaction.hash,
       Number(event.logIndex)
     );
+    await refreshUserHealthForReserve(context, reserveId, Number(event.block.timestamp));
   }
 });
 
@@ -741,6 +894,12 @@ PoolConfigurator.ReserveStableRateBorrowing.handler(async ({ event, context }) =
     Number(event.block.timestamp),
     BigInt(event.block.number)
   );
+  recordGovernanceAction(context, event, {
+    contractName: 'PoolConfigurator',
+    action: 'ReserveStableRateBorrowing',
+    target: event.params.asset,
+    newValue: event.params.enabled,
+  });
   const poolId = await resolvePoolId(context, event.srcAddress);
   const asset = normalizeAddress(event.params.asset);
   const reserveId = `${asset}-${poolId}`;
@@ -769,6 +928,12 @@ PoolConfigurator.ReserveActive.handler(async ({ event, context }) => {
     Number(event.block.timestamp),
     BigInt(event.block.number)
   );
+  recordGovernanceAction(context, event, {
+    contractName: 'PoolConfigurator',
+    action: 'ReserveActive',
+    target: event.params.asset,
+    newValue: event.params.active,
+  });
   const poolId = await resolvePoolId(context, event.srcAddress);
   const asset = normalizeAddress(event.params.asset);
   const reserveId = `${asset}-${poolId}`;
@@ -798,6 +963,12 @@ PoolConfigurator.ReserveFrozen.handler(async ({ event, context }) => {
     Number(event.block.timestamp),
     BigInt(event.block.number)
   );
+  recordGovernanceAction(context, event, {
+    contractName: 'PoolConfigurator',
+    action: 'ReserveFrozen',
+    target: event.params.asset,
+    newValue: event.params.frozen,
+  });
   const poolId = await resolvePoolId(context, event.srcAddress);
   const asset = normalizeAddress(event.params.asset);
   const reserveId = `${asset}-${poolId}`;
@@ -826,6 +997,12 @@ PoolConfigurator.ReservePaused.handler(async ({ event, context }) => {
     Number(event.block.timestamp),
     BigInt(event.block.number)
   );
+  recordGovernanceAction(context, event, {
+    contractName: 'PoolConfigurator',
+    action: 'ReservePaused',
+    target: event.params.asset,
+    newValue: event.params.paused,
+  });
   const poolId = await resolvePoolId(context, event.srcAddress);
   const asset = normalizeAddress(event.params.asset);
   const reserveId = `${asset}-${poolId}`;
@@ -845,6 +1022,11 @@ PoolConfigurator.ReserveDropped.handler(async ({ event, context }) => {
     Number(event.block.timestamp),
     BigInt(event.block.number)
   );
+  recordGovernanceAction(context, event, {
+    contractName: 'PoolConfigurator',
+    action: 'ReserveDropped',
+    target: event.params.asset,
+  });
   const poolId = await resolvePoolId(context, event.srcAddress);
   const asset = normalizeAddress(event.params.asset);
   const reserveId = `${asset}-${poolId}`;
@@ -865,6 +1047,13 @@ PoolConfigurator.ReserveFactorChanged.handler(async ({ event, context }) => {
     Number(event.block.timestamp),
     BigInt(event.block.number)
   );
+  recordGovernanceAction(context, event, {
+    contractName: 'PoolConfigurator',
+    action: 'ReserveFactorChanged',
+    target: event.params.asset,
+    oldValue: event.params.oldReserveFactor,
+    newValue: event.params.newReserveFactor,
+  });
   const poolId = await resolvePoolId(context, event.srcAddress);
   const asset = normalizeAddress(event.params.asset);
   const reserveId = `${asset}-${poolId}`;
@@ -893,6 +1082,13 @@ PoolConfigurator.SupplyCapChanged.handler(async ({ event, context }) => {
     Number(event.block.timestamp),
     BigInt(event.block.number)
   );
+  recordGovernanceAction(context, event, {
+    contractName: 'PoolConfigurator',
+    action: 'SupplyCapChanged',
+    target: event.params.asset,
+    oldValue: event.params.oldSupplyCap,
+    newValue: event.params.newSupplyCap,
+  });
   const poolId = await resolvePoolId(context, event.srcAddress);
   const asset = normalizeAddress(event.params.asset);
   const reserveId = `${asset}-${poolId}`;
@@ -902,6 +1098,11 @@ PoolConfigurator.SupplyCapChanged.handler(async ({ event, context }) => {
       ...reserve,
       supplyCap: event.params.newSupplyCap,
     });
+    await updateReserveCapUtilization(context, reserveId, {
+      txHash: event.transaction.hash,
+      logIndex: event.logIndex,
+      timestamp: Number(event.block.timestamp),
+    });
   }
 });
 
@@ -912,6 +1113,13 @@ PoolConfigurator.BorrowCapChanged.handler(async ({ event, context }) => {
     Number(event.block.timestamp),
     BigInt(event.block.number)
   );
+  recordGovernanceAction(context, event, {
+    contractName: 'PoolConfigurator',
+    action: 'BorrowCapChanged',
+    target: event.params.asset,
+    oldValue: event.params.oldBorrowCap,
+    newValue: event.params.newBorrowCap,
+  });
   const poolId = await resolvePoolId(context, event.srcAddress);
   const asset = normalizeAddress(event.params.asset);
   const reserveId = `${asset}-${poolId}`;
@@ -921,6 +1129,11 @@ PoolConfigurator.BorrowCapChanged.handler(async ({ event, context }) => {
       ...reserve,
       borrowCap: event.params.newBorrowCap,
     });
+    await updateReserveCapUtilization(context, reserveId, {
+      txHash: event.transaction.hash,
+      logIndex: event.logIndex,
+      timestamp: Number(event.block.timestamp),
+    });
   }
 });
 
@@ -931,6 +1144,13 @@ PoolConfigurator.EModeAssetCategoryChanged.handler(async ({ event, context }) =>
     Number(event.block.timestamp),
     BigInt(event.block.number)
   );
+  recordGovernanceAction(context, event, {
+    contractName: 'PoolConfigurator',
+    action: 'EModeAssetCategoryChanged',
+    target: event.params.asset,
+    oldValue: event.params.oldCategoryId,
+    newValue: event.params.newCategoryId,
+  });
   const poolId = await resolvePoolId(context, event.srcAddress);
   const asset = normalizeAddress(event.params.asset);
   const reserveId = `${asset}-${poolId}`;
@@ -950,6 +1170,18 @@ PoolConfigurator.EModeCategoryAdded.handler(async ({ event, context }) => {
     Number(event.block.timestamp),
     BigInt(event.block.number)
   );
+  recordGovernanceAction(context, event, {
+    contractName: 'PoolConfigurator',
+    action: 'EModeCategoryAdded',
+    target: event.params.categoryId,
+    newValue: {
+      ltv: event.params.ltv,
+      liquidationThreshold: event.params.liquidationThreshold,
+      liquidationBonus: event.params.liquidationBonus,
+      oracle: event.params.oracle,
+      label: event.params.label,
+    },
+  });
   const id = event.params.categoryId.toString();
 
   context.EModeCategory.set({
@@ -969,6 +1201,12 @@ PoolConfigurator.ATokenUpgraded.handler(async ({ event, context }) => {
     Number(event.block.timestamp),
     BigInt(event.block.number)
   );
+  recordGovernanceAction(context, event, {
+    contractName: 'PoolConfigurator',
+    action: 'ATokenUpgraded',
+    target: event.params.asset,
+    newValue: { proxy: event.params.proxy, implementation: event.params.implementation },
+  });
   const subToken = await context.SubToken.get(normalizeAddress(event.params.proxy));
   if (subToken) {
     context.SubToken.set({
@@ -985,6 +1223,12 @@ PoolConfigurator.StableDebtTokenUpgraded.handler(async ({ event, context }) => {
     Number(event.block.timestamp),
     BigInt(event.block.number)
   );
+  recordGovernanceAction(context, event, {
+    contractName: 'PoolConfigurator',
+    action: 'StableDebtTokenUpgraded',
+    target: event.params.asset,
+    newValue: { proxy: event.params.proxy, implementation: event.params.implementation },
+  });
   const subToken = await context.SubToken.get(normalizeAddress(event.params.proxy));
   if (subToken) {
     context.SubToken.set({
@@ -1001,6 +1245,12 @@ PoolConfigurator.VariableDebtTokenUpgraded.handler(async ({ event, context }) =>
     Number(event.block.timestamp),
     BigInt(event.block.number)
   );
+  recordGovernanceAction(context, event, {
+    contractName: 'PoolConfigurator',
+    action: 'VariableDebtTokenUpgraded',
+    target: event.params.asset,
+    newValue: { proxy: event.params.proxy, implementation: event.params.implementation },
+  });
   const subToken = await context.SubToken.get(normalizeAddress(event.params.proxy));
   if (subToken) {
     context.SubToken.set({
@@ -1017,6 +1267,12 @@ PoolConfigurator.BorrowableInIsolationChanged.handler(async ({ event, context })
     Number(event.block.timestamp),
     BigInt(event.block.number)
   );
+  recordGovernanceAction(context, event, {
+    contractName: 'PoolConfigurator',
+    action: 'BorrowableInIsolationChanged',
+    target: event.params.asset,
+    newValue: event.params.borrowable,
+  });
   const poolId = await resolvePoolId(context, event.srcAddress);
   const asset = normalizeAddress(event.params.asset);
   const reserveId = `${asset}-${poolId}`;
@@ -1036,6 +1292,13 @@ PoolConfigurator.SiloedBorrowingChanged.handler(async ({ event, context }) => {
     Number(event.block.timestamp),
     BigInt(event.block.number)
   );
+  recordGovernanceAction(context, event, {
+    contractName: 'PoolConfigurator',
+    action: 'SiloedBorrowingChanged',
+    target: event.params.asset,
+    oldValue: event.params.oldState,
+    newValue: event.params.newState,
+  });
   const poolId = await resolvePoolId(context, event.srcAddress);
   const asset = normalizeAddress(event.params.asset);
   const reserveId = `${asset}-${poolId}`;
@@ -1064,6 +1327,13 @@ PoolConfigurator.DebtCeilingChanged.handler(async ({ event, context }) => {
     Number(event.block.timestamp),
     BigInt(event.block.number)
   );
+  recordGovernanceAction(context, event, {
+    contractName: 'PoolConfigurator',
+    action: 'DebtCeilingChanged',
+    target: event.params.asset,
+    oldValue: event.params.oldDebtCeiling,
+    newValue: event.params.newDebtCeiling,
+  });
   const poolId = await resolvePoolId(context, event.srcAddress);
   const asset = normalizeAddress(event.params.asset);
   const reserveId = `${asset}-${poolId}`;
@@ -1073,6 +1343,11 @@ PoolConfigurator.DebtCeilingChanged.handler(async ({ event, context }) => {
       ...reserve,
       debtCeiling: event.params.newDebtCeiling,
     });
+    await updateReserveCapUtilization(context, reserveId, {
+      txHash: event.transaction.hash,
+      logIndex: event.logIndex,
+      timestamp: Number(event.block.timestamp),
+    });
   }
 });
 
@@ -1083,6 +1358,13 @@ PoolConfigurator.UnbackedMintCapChanged.handler(async ({ event, context }) => {
     Number(event.block.timestamp),
     BigInt(event.block.number)
   );
+  recordGovernanceAction(context, event, {
+    contractName: 'PoolConfigurator',
+    action: 'UnbackedMintCapChanged',
+    target: event.params.asset,
+    oldValue: event.params.oldUnbackedMintCap,
+    newValue: event.params.newUnbackedMintCap,
+  });
   const poolId = await resolvePoolId(context, event.srcAddress);
   const asset = normalizeAddress(event.params.asset);
   const reserveId = `${asset}-${poolId}`;
@@ -1102,6 +1384,13 @@ PoolConfigurator.LiquidationProtocolFeeChanged.handler(async ({ event, context }
     Number(event.block.timestamp),
     BigInt(event.block.number)
   );
+  recordGovernanceAction(context, event, {
+    contractName: 'PoolConfigurator',
+    action: 'LiquidationProtocolFeeChanged',
+    target: event.params.asset,
+    oldValue: event.params.oldFee,
+    newValue: event.params.newFee,
+  });
   const poolId = await resolvePoolId(context, event.srcAddress);
   const asset = normalizeAddress(event.params.asset);
   const reserveId = `${asset}-${poolId}`;
@@ -1114,6 +1403,12 @@ PoolConfigurator.LiquidationProtocolFeeChanged.handler(async ({ event, context }
   }
 });
 
+PoolConfigurator.ReserveInterestRateStrategyChanged.contractRegister(async ({ event, context }) => {
+  if (normalizeAddress(event.params.newStrategy) !== ZERO_ADDRESS) {
+    context.addDefaultReserveInterestRateStrategyV2(normalizeAddress(event.params.newStrategy));
+  }
+});
+
 PoolConfigurator.ReserveInterestRateStrategyChanged.handler(async ({ event, context }) => {
   await recordProtocolTransaction(
     context,
@@ -1121,14 +1416,32 @@ PoolConfigurator.ReserveInterestRateStrategyChanged.handler(async ({ event, cont
     Number(event.block.timestamp),
     BigInt(event.block.number)
   );
+  recordGovernanceAction(context, event, {
+    contractName: 'PoolConfigurator',
+    action: 'ReserveInterestRateStrategyChanged',
+    target: event.params.asset,
+    oldValue: event.params.oldStrategy,
+    newValue: event.params.newStrategy,
+  });
   const poolId = await resolvePoolId(context, event.srcAddress);
   const asset = normalizeAddress(event.params.asset);
   const reserveId = `${asset}-${poolId}`;
   const reserve = await context.Reserve.get(reserveId);
   if (reserve) {
+    const newStrategy = normalizeAddress(event.params.newStrategy);
+    const curve = await resolveStrategyCurve(
+      context,
+      newStrategy,
+      asset,
+      BigInt(event.block.number),
+      Number(event.block.timestamp)
+    );
+    // A new strategy without a known curve must not inherit the old one.
+    const strategyChanged = newStrategy !== reserve.reserveInterestRateStrategy;
     const updated = {
       ...reserve,
-      reserveInterestRateStrategy: normalizeAddress(event.params.newStrategy),
+      ...(curve || strategyChanged ? getStrategyCurveFields(curve ?? EMPTY_STRATEGY_CURVE) : {}),
+      reserveInterestRateStrategy: newStrategy,
       lastUpdateTimestamp: Number(event.block.timestamp),
     };
     context.Reserve.set(updated);
@@ -1149,6 +1462,12 @@ PoolConfigurator.FlashloanPremiumTotalUpdated.handler(async ({ event, context })
     Number(event.block.timestamp),
     BigInt(event.block.number)
   );
+  recordGovernanceAction(context, event, {
+    contractName: 'PoolConfigurator',
+    action: 'FlashloanPremiumTotalUpdated',
+    oldValue: event.params.oldFlashloanPremiumTotal,
+    newValue: event.params.newFlashloanPremiumTotal,
+  });
   const configurator = normalizeAddress(event.srcAddress);
   const mapping = await context.ContractToPoolMapping.get(configurator);
   const poolId = mapping?.pool_id || configurator;
@@ -1170,6 +1489,12 @@ PoolConfigurator.FlashloanPremiumToProtocolUpdated.handler(async ({ event, conte
     Number(event.block.timestamp),
     BigInt(event.block.number)
   );
+  recordGovernanceAction(context, event, {
+    contractName: 'PoolConfigurator',
+    action: 'FlashloanPremiumToProtocolUpdated',
+    oldValue: event.params.oldFlashloanPremiumToProtocol,
+    newValue: event.params.newFlashloanPremiumToProtocol,
+  });
   const configurator = normalizeAddress(event.srcAddress);
   const mapping = await context.ContractToPoolMapping.get(configurator);
   const poolId = mapping?.pool_id || configurator;
@@ -1191,6 +1516,12 @@ PoolConfigurator.AssetCollateralInEModeChanged.handler(async ({ event, context }
     Number(event.block.timestamp),
     BigInt(event.block.number)
   );
+  recordGovernanceAction(context, event, {
+    contractName: 'PoolConfigurator',
+    action: 'AssetCollateralInEModeChanged',
+    target: event.params.asset,
+    newValue: { categoryId: event.params.categoryId, collateral: event.params.collateral },
+  });
   const categoryId = event.params.categoryId.toString();
   const asset = normalizeAddress(event.params.asset);
   const configId = `${asset}-${categoryId}`;
@@ -1219,6 +1550,12 @@ PoolConfigurator.AssetBorrowableInEModeChanged.handler(async ({ event, context }
     Number(event.block.timestamp),
     BigInt(event.block.number)
   );
+  recordGovernanceAction(context, event, {
+    contractName: 'PoolConfigurator',
+    action: 'AssetBorrowableInEModeChanged',
+    target: event.params.asset,
+    newValue: { categoryId: event.params.categoryId, borrowable: event.params.borrowable },
+  });
   const categoryId = event.params.categoryId.toString();
   const asset = normalizeAddress(event.params.asset);
   const configId = `${asset}-${categoryId}`;
@@ -1247,6 +1584,12 @@ PoolConfigurator.BridgeProtocolFeeUpdated.handler(async ({ event, context }) =>
     Number(event.block.timestamp),
     BigInt(event.block.number)
   );
+  recordGovernanceAction(context, event, {
+    contractName: 'PoolConfigurator',
+    action: 'BridgeProtocolFeeUpdated',
+    oldValue: event.params.oldBridgeProtocolFee,
+    newValue: event.params.newBridgeProtocolFee,
+  });
   const configurator = normalizeAddress(event.srcAddress);
   const mapping = await context.ContractToPoolMapping.get(configurator);
   const poolId = mapping?.pool_id || configurator;
@@ -1261,6 +1604,49 @@ PoolConfigurator.BridgeProtocolFeeUpdated.handler(async ({ event, context }) =>
   }
 });
 
+// ============================================
+// DefaultReserveInterestRateStrategyV2 Handlers
+// ============================================
+
+DefaultReserveInterestRateStrategyV2.RateDataUpdate.handler(async ({ event, context }) => {
+  await recordProtocolTransaction(
+    context,
+    event.transaction.hash,
+    Number(event.block.timestamp),
+    BigInt(event.block.number)
+  );
+
+  const strategy = normalizeAddress(event.srcAddress);
+  const asset = normalizeAddress(event.params.reserve);
+  const timestamp = Number(event.block.timestamp);
+  const id = `${strategy}-${asset}`;
+  // The event carries bps; curves are stored in ray like the eth_call reads.
+  const curve = {
+    optimalUsageRatio: bpsToRay(event.params.optimalUsageRatio),
+    baseVariableBorrowRate: bpsToRay(event.params.baseVariableBorrowRate),
+    variableRateSlope1: bpsToRay(event.params.variableRateSlope1),
+    variableRateSlope2: bpsToRay(event.params.variableRateSlope2),
+  };
+
+  context.InterestRateStrategy.set({ id, strategy, asset, ...curve, updatedAt: timestamp });
+  context.InterestRateStrategyHistoryItem.set({
+    id: getHistoryEntityId(event.transaction.hash, Number(event.logIndex)),
+    interestRateStrategy_id: id,
+    strategy,
+    asset,
+    ...curve,
+    txHash: event.transaction.hash,
+    timestamp,
+  });
+
+  // Only reserves currently pointing at this strategy take the new curve.
+  const reserves = await context.Reserve.getWhere.underlyingAsset.eq(asset);
+  for (const reserve of reserves) {
+    if (reserve.reserveInterestRateStrategy !== strategy) continue;
+    context.Reserve.set({ ...reserve, ...getStrategyCurveFields(curve) });
+  }
+});
+
 // ============================================
 // UserVaultFactory Handlers
 // ============================================
@@ -1388,4 +1774,14 @@ UserVault.LoanSelfRepaid.handler(async ({ event, context }) => {
     totalSelfRepayVolume: ps.totalSelfRepayVolume + event.params.amount,
     totalSelfRepayCount: ps.totalSelfRepayCount + 1n,
   });
+
+  if (debtTokenMeta) {
+    await recordSelfRepayment(context, {
+      vault: vaultAddress,
+      user: userAddress,
+      debtToken: debtTokenMeta,
+      amount: event.params.amount,
+      timestamp,
+    });
+  }
 });
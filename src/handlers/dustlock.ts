@@ -17,10 +17,21 @@ import {
   normalizeAddress,
 } from '../helpers/constants';
 import { handleDustLockSpecialEditionTransfer } from './specialEditions';
+import { recordUserPortfolioDay } from '../helpers/userPortfolio';
+import { recordGovernanceAction } from '../helpers/governance';
+import { recordDustLockLineage } from '../helpers/dustLockLineage';
+import { recordDustTreasuryRevenue, setTreasuryRevenueRecipient } from '../helpers/treasuryRevenue';
+import { updateDustUnlockCalendar } from '../helpers/dustUnlockCalendar';
+import { checkpointVeDustSupply } from '../helpers/veDustSupply';
+import type { VeDustLockShape } from '../helpers/veDustSupply';
+import { settleRevenueRewards } from '../helpers/revenueRewards';
 
 import { DustLock } from '../../generated';
 import type { handlerContext } from '../../generated';
 
+// TreasuryRevenueRecipient id for early-withdraw penalties.
+const EARLY_WITHDRAW_REVENUE_ID = 'dustLockEarlyWithdraw';
+
 function shouldUpdateVotingPower(blockNumber: number): boolean {
   return blockNumber >= DUST_LOCK_START_BLOCK;
 }
@@ -73,6 +84,32 @@ async function getOrInitDustLockToken(context: handlerContext, tokenId: string,
   return token;
 }
 
+function supplyCheckpointMeta(event: {
+  transaction: { hash: string };
+  logIndex: number;
+  block: { number: number; timestamp: number };
+}) {
+  return {
+    txHash: event.transaction.hash,
+    logIndex: event.logIndex,
+    timestamp: event.block.timestamp,
+    blockNumber: BigInt(event.block.number),
+  };
+}
+
+// Applies a veNFT lock change to the global veDUST supply and the unlock calendar,
+// settling the token's RevenueReward estimate against its previous shape first.
+async function applyLockChange(
+  context: handlerContext,
+  previous: VeDustLockShape & { id: string },
+  next: VeDustLockShape,
+  meta: ReturnType<typeof supplyCheckpointMeta>
+) {
+  await settleRevenueRewards(context, previous.id, previous, meta.timestamp);
+  await checkpointVeDustSupply(context, previous, next, meta);
+  await updateDustUnlockCalendar(context, previous, next, meta.timestamp);
+}
+
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 function createAdminEventId(event: any): string {
   return `${event.transaction.hash}-${event.logIndex}`;
@@ -116,6 +153,12 @@ DustLock.Deposit.handler(async ({ event, context }) => {
     lastDepositType: depositType,
     updatedAt: Number(event.block.timestamp),
   });
+  await applyLockChange(
+    context,
+    token,
+    { lockedAmount, end: locktime, isPermanent },
+    supplyCheckpointMeta(event)
+  );
 
   context.DustLockDeposit.set({
     id: depositId,
@@ -139,6 +182,10 @@ DustLock.Deposit.handler(async ({ event, context }) => {
       BigInt(event.block.number)
     );
   }
+
+  if (token.owner) {
+    await recordUserPortfolioDay(context, token.owner, Number(event.block.timestamp));
+  }
 });
 
 DustLock.Withdraw.handler(async ({ event, context }) => {
@@ -182,6 +229,12 @@ DustLock.Withdraw.handler(async ({ event, context }) => {
     lockedAmount: newAmount,
     updatedAt: Number(event.block.timestamp),
   });
+  await applyLockChange(
+    context,
+    token,
+    { ...token, lockedAmount: newAmount },
+    supplyCheckpointMeta(event)
+  );
 
   if (token.owner && token.owner !== '' && shouldUpdateVotingPower(Number(event.block.number))) {
     await updateUserVotingPower(
@@ -195,6 +248,10 @@ DustLock.Withdraw.handler(async ({ event, context }) => {
       Number(event.logIndex)
     );
   }
+
+  if (token.owner) {
+    await recordUserPortfolioDay(context, token.owner, Number(event.block.timestamp));
+  }
 });
 
 DustLock.EarlyWithdraw.handler(async ({ event, context }) => {
@@ -221,6 +278,13 @@ DustLock.EarlyWithdraw.handler(async ({ event, context }) => {
     txHash: event.transaction.hash,
     timestamp: Number(event.block.timestamp),
   });
+  await recordDustTreasuryRevenue(
+    context,
+    EARLY_WITHDRAW_REVENUE_ID,
+    'earlyWithdrawPenalty',
+    penalty,
+    Number(event.block.timestamp)
+  );
 
   const token = await getOrInitDustLockToken(context, tokenId, Number(event.block.timestamp));
 
@@ -240,6 +304,12 @@ DustLock.EarlyWithdraw.handler(async ({ event, context }) => {
     lockedAmount: newAmount,
     updatedAt: Number(event.block.timestamp),
   });
+  await applyLockChange(
+    context,
+    token,
+    { ...token, lockedAmount: newAmount },
+    supplyCheckpointMeta(event)
+  );
 
   if (token.owner && token.owner !== '' && shouldUpdateVotingPower(Number(event.block.number))) {
     await updateUserVotingPower(
@@ -283,6 +353,12 @@ DustLock.LockPermanent.handler(async ({ event, context }) => {
     lockedAmount: event.params.amount,
     updatedAt: Number(event.block.timestamp),
   });
+  await applyLockChange(
+    context,
+    token,
+    { lockedAmount: event.params.amount, end: 0, isPermanent: true },
+    supplyCheckpointMeta(event)
+  );
 
   context.DustLockPermanentLock.set({
     id,
@@ -337,6 +413,12 @@ DustLock.UnlockPermanent.handler(async ({ event, context }) => {
     lockedAmount: event.params.amount,
     updatedAt: Number(event.block.timestamp),
   });
+  await applyLockChange(
+    context,
+    token,
+    { lockedAmount: event.params.amount, end: unlockEnd, isPermanent: false },
+    supplyCheckpointMeta(event)
+  );
 
   context.DustLockPermanentUnlock.set({
     id,
@@ -401,6 +483,16 @@ DustLock.Merge.handler(async ({ event, context }) => {
     txHash: event.transaction.hash,
     timestamp: Number(event.block.timestamp),
   });
+  await recordDustLockLineage(context, {
+    kind: 'merge',
+    parentTokenId: event.params.from.toString(),
+    parentAmount: event.params.amountFrom,
+    children: [{ tokenId: event.params.to.toString(), amount: event.params.amountFinal }],
+    txHash: event.transaction.hash,
+    logIndex: Number(event.logIndex),
+    timestamp: Number(event.block.timestamp),
+    blockNumber: BigInt(event.block.number),
+  });
 
   const toToken = await getOrInitDustLockToken(
     context,
@@ -423,6 +515,12 @@ DustLock.Merge.handler(async ({ event, context }) => {
     end: Number(event.params.locktime),
     updatedAt: Number(event.block.timestamp),
   });
+  await applyLockChange(
+    context,
+    toToken,
+    { ...toToken, lockedAmount: event.params.amountFinal, end: Number(event.params.locktime) },
+    supplyCheckpointMeta(event)
+  );
 
   if (
     toToken.owner &&
@@ -465,6 +563,19 @@ DustLock.Split.handler(async ({ event, context }) => {
     txHash: event.transaction.hash,
     timestamp: Number(event.block.timestamp),
   });
+  await recordDustLockLineage(context, {
+    kind: 'split',
+    parentTokenId: event.params.from.toString(),
+    parentAmount: event.params.splitAmount1 + event.params.splitAmount2,
+    children: [
+      { tokenId: event.params.tokenId1.toString(), amount: event.params.splitAmount1 },
+      { tokenId: event.params.tokenId2.toString(), amount: event.params.splitAmount2 },
+    ],
+    txHash: event.transaction.hash,
+    logIndex: Number(event.logIndex),
+    timestamp: Number(event.block.timestamp),
+    blockNumber: BigInt(event.block.number),
+  });
 
   const token1 = await getOrInitDustLockToken(
     context,
@@ -487,6 +598,16 @@ DustLock.Split.handler(async ({ event, context }) => {
     end: Number(event.params.locktime),
     updatedAt: Number(event.block.timestamp),
   });
+  await applyLockChange(
+    context,
+    token1,
+    {
+      ...token1,
+      lockedAmount: event.params.splitAmount1,
+      end: Number(event.params.locktime),
+    },
+    supplyCheckpointMeta(event)
+  );
 
   const token2 = await getOrInitDustLockToken(
     context,
@@ -499,6 +620,16 @@ DustLock.Split.handler(async ({ event, context }) => {
     end: Number(event.params.locktime),
     updatedAt: Number(event.block.timestamp),
   });
+  await applyLockChange(
+    context,
+    token2,
+    {
+      ...token2,
+      lockedAmount: event.params.splitAmount2,
+      end: Number(event.params.locktime),
+    },
+    supplyCheckpointMeta(event)
+  );
 
   if (token1.owner && token1.owner !== '' && shouldUpdateVotingPower(Number(event.block.number))) {
     await recalculateUserTotalVP(
@@ -556,6 +687,14 @@ DustLock.Transfer.handler(async ({ event, context }) => {
     isPermanent: isBurn ? false : token.isPermanent,
     updatedAt: timestamp,
   });
+  if (isBurn) {
+    await applyLockChange(
+      context,
+      token,
+      { lockedAmount: 0n, end: 0, isPermanent: false },
+      supplyCheckpointMeta(event)
+    );
+  }
 
   if (from !== ZERO_ADDRESS) {
     await updateUserTokenList(context, from, event.params.tokenId, timestamp, 'remove');
@@ -604,6 +743,12 @@ DustLock.EarlyWithdrawPenaltyUpdated.handler(async ({ event, context }) => {
     Number(event.block.timestamp),
     BigInt(event.block.number)
   );
+  recordGovernanceAction(context, event, {
+    contractName: 'DustLock',
+    action: 'EarlyWithdrawPenaltyUpdated',
+    oldValue: event.params.oldPenalty,
+    newValue: event.params.newPenalty,
+  });
   const id = createAdminEventId(event);
   context.DustLockAdminEvent.set({
     id,
@@ -628,6 +773,19 @@ DustLock.EarlyWithdrawTreasuryUpdated.handler(async ({ event, context }) => {
     Number(event.block.timestamp),
     BigInt(event.block.number)
   );
+  recordGovernanceAction(context, event, {
+    contractName: 'DustLock',
+    action: 'EarlyWithdrawTreasuryUpdated',
+    oldValue: event.params.oldTreasury,
+    newValue: event.params.newTreasury,
+  });
+  await setTreasuryRevenueRecipient(
+    context,
+    EARLY_WITHDRAW_REVENUE_ID,
+    'earlyWithdrawPenalty',
+    event.params.newTreasury,
+    Number(event.block.timestamp)
+  );
   const id = createAdminEventId(event);
   context.DustLockAdminEvent.set({
     id,
@@ -652,6 +810,12 @@ DustLock.MinLockAmountUpdated.handler(async ({ event, context }) => {
     Number(event.block.timestamp),
     BigInt(event.block.number)
   );
+  recordGovernanceAction(context, event, {
+    contractName: 'DustLock',
+    action: 'MinLockAmountUpdated',
+    oldValue: event.params.oldAmount,
+    newValue: event.params.newAmount,
+  });
   const id = createAdminEventId(event);
   context.DustLockAdminEvent.set({
     id,
@@ -676,6 +840,12 @@ DustLock.RevenueRewardUpdated.handler(async ({ event, context }) => {
     Number(event.block.timestamp),
     BigInt(event.block.number)
   );
+  recordGovernanceAction(context, event, {
+    contractName: 'DustLock',
+    action: 'RevenueRewardUpdated',
+    oldValue: event.params.oldReward,
+    newValue: event.params.newReward,
+  });
   const id = createAdminEventId(event);
   context.DustLockAdminEvent.set({
     id,
@@ -700,6 +870,12 @@ DustLock.SplitPermissionUpdated.handler(async ({ event, context }) => {
     Number(event.block.timestamp),
     BigInt(event.block.number)
   );
+  recordGovernanceAction(context, event, {
+    contractName: 'DustLock',
+    action: 'SplitPermissionUpdated',
+    target: event.params.account,
+    newValue: event.params.allowed,
+  });
   const id = createAdminEventId(event);
   context.DustLockAdminEvent.set({
     id,
@@ -724,6 +900,12 @@ DustLock.TeamProposed.handler(async ({ event, context }) => {
     Number(event.block.timestamp),
     BigInt(event.block.number)
   );
+  recordGovernanceAction(context, event, {
+    contractName: 'DustLock',
+    action: 'TeamProposed',
+    oldValue: event.params.currentTeam,
+    newValue: event.params.proposedTeam,
+  });
   const id = createAdminEventId(event);
   context.DustLockAdminEvent.set({
     id,
@@ -748,6 +930,12 @@ DustLock.TeamAccepted.handler(async ({ event, context }) => {
     Number(event.block.timestamp),
     BigInt(event.block.number)
   );
+  recordGovernanceAction(context, event, {
+    contractName: 'DustLock',
+    action: 'TeamAccepted',
+    oldValue: event.params.oldTeam,
+    newValue: event.params.newTeam,
+  });
   const id = createAdminEventId(event);
   context.DustLockAdminEvent.set({
     id,
@@ -772,6 +960,12 @@ DustLock.TeamProposalCancelled.handler(async ({ event, context }) => {
     Number(event.block.timestamp),
     BigInt(event.block.number)
   );
+  recordGovernanceAction(context, event, {
+    contractName: 'DustLock',
+    action: 'TeamProposalCancelled',
+    target: event.params.cancelledTeam,
+    oldValue: event.params.currentTeam,
+  });
   const id = createAdminEventId(event);
   context.DustLockAdminEvent.set({
     id,
@@ -796,6 +990,12 @@ DustLock.BaseURIUpdated.handler(async ({ event, context }) => {
     Number(event.block.timestamp),
     BigInt(event.block.number)
   );
+  recordGovernanceAction(context, event, {
+    contractName: 'DustLock',
+    action: 'BaseURIUpdated',
+    oldValue: event.params.oldBaseURI,
+    newValue: event.params.newBaseURI,
+  });
   const id = createAdminEventId(event);
   context.DustLockAdminEvent.set({
     id,
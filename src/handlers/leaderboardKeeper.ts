@@ -13,6 +13,7 @@ import {
   settlePointsForAllReserves,
 } from './shared';
 import { normalizeAddress } from '../helpers/constants';
+import { recordGovernanceAction } from '../helpers/governance';
 
 import { LeaderboardKeeper } from '../../generated';
 import type { handlerContext } from '../../generated';
@@ -294,6 +295,12 @@ LeaderboardKeeper.KeeperUpdated.handler(async ({ event, context }) => {
     Number(event.block.timestamp),
     BigInt(event.block.number)
   );
+  recordGovernanceAction(context, event, {
+    contractName: 'LeaderboardKeeper',
+    action: 'KeeperUpdated',
+    oldValue: event.params.oldKeeper,
+    newValue: event.params.newKeeper,
+  });
   const timestamp = Number(event.block.timestamp);
   const id = `${event.transaction.hash}-${event.logIndex}`;
 
@@ -320,6 +327,12 @@ LeaderboardKeeper.MinSettlementIntervalUpdated.handler(async ({ event, context }
     Number(event.block.timestamp),
     BigInt(event.block.number)
   );
+  recordGovernanceAction(context, event, {
+    contractName: 'LeaderboardKeeper',
+    action: 'MinSettlementIntervalUpdated',
+    oldValue: event.params.oldInterval,
+    newValue: event.params.newInterval,
+  });
   const timestamp = Number(event.block.timestamp);
   const id = `${event.transaction.hash}-${event.logIndex}`;
 
@@ -346,6 +359,12 @@ LeaderboardKeeper.SelfSyncCooldownUpdated.handler(async ({ event, context }) =>
     Number(event.block.timestamp),
     BigInt(event.block.number)
   );
+  recordGovernanceAction(context, event, {
+    contractName: 'LeaderboardKeeper',
+    action: 'SelfSyncCooldownUpdated',
+    oldValue: event.params.oldCooldown,
+    newValue: event.params.newCooldown,
+  });
   const timestamp = Number(event.block.timestamp);
   const id = `${event.transaction.hash}-${event.logIndex}`;
 
@@ -372,6 +391,12 @@ LeaderboardKeeper.OwnershipTransferred.handler(async ({ event, context }) => {
     Number(event.block.timestamp),
     BigInt(event.block.number)
   );
+  recordGovernanceAction(context, event, {
+    contractName: 'LeaderboardKeeper',
+    action: 'OwnershipTransferred',
+    oldValue: event.params.previousOwner,
+    newValue: event.params.newOwner,
+  });
   const timestamp = Number(event.block.timestamp);
   const id = `${event.transaction.hash}-${event.logIndex}`;
 
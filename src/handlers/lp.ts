@@ -26,6 +26,7 @@ import {
   BALANCER_AUTORANGE_V3_POOL_ADDRESS,
   BALANCER_VAULT_ADDRESS,
   BASIS_POINTS,
+  DUST_TOKEN_ADDRESS,
   LP_BALANCER_MAX_SETTLEMENTS_PER_SWAP,
   LP_BALANCER_AUTORANGE_CUTOVER_BLOCK,
   LP_BALANCER_AUTORANGE_CUTOVER_TIMESTAMP,
@@ -40,8 +41,10 @@ import {
   USDC_ADDRESS,
   USDT0_ADDRESS,
 } from '../helpers/constants';
+import { recordDexDerivedPrice } from '../helpers/oracleHealth';
 import { getTestnetBonusBps } from '../helpers/testnetTiers';
 import { getAmountsForLiquidity } from '../helpers/uniswapV3';
+import { recordUserPortfolioDay } from '../helpers/userPortfolio';
 
 import {
   BalancerAutoRangePool,
@@ -63,7 +66,6 @@ const LEGACY_V3_LP_POOL = normalizeAddress('0xd15965968fe8bf2babbe39b2fc5de1ab67
 const LEGACY_V3_LP_POSITION_MANAGER = normalizeAddress(
   '0x7197e214c0b767cfb76fb734ab638e2c192f4e53'
 );
-const DUST_TOKEN_ADDRESS = normalizeAddress('0xad96c3dffcd6374294e2573a7fbba96097cc8d7c');
 const LEGACY_V3_LP_TOKEN0 = AUSD_ADDRESS;
 const LEGACY_V3_LP_TOKEN1 = DUST_TOKEN_ADDRESS;
 const LEGACY_V3_LP_FEE = 10000;
@@ -213,6 +215,24 @@ function isStableUsdToken(token: string): boolean {
   );
 }
 
+// Records the non-stable side of a pool's price as a DexPrice so oracle reads
+// can be compared against the DEX.
+async function recordPoolDexPrices(
+  context: handlerContext,
+  poolConfig: { pool: string; token0: string; token1: string },
+  token0Price: bigint,
+  token1Price: bigint,
+  timestamp: number
+) {
+  const pool = normalizeAddress(poolConfig.pool);
+  if (!isStableUsdToken(poolConfig.token0)) {
+    await recordDexDerivedPrice(context, poolConfig.token0, token0Price, pool, timestamp);
+  }
+  if (!isStableUsdToken(poolConfig.token1)) {
+    await recordDexDerivedPrice(context, poolConfig.token1, token1Price, pool, timestamp);
+  }
+}
+
 function isPastLpV2Cutover(timestamp: number, blockNumber?: bigint): boolean {
   if (timestamp >= LP_V2_CUTOVER_TIMESTAMP) return true;
   if (blockNumber === undefined) return false;
@@ -1498,6 +1518,13 @@ async function updateBalancerAutoRangePoolStateFromReserves(
   };
   context.LPPoolState.set(nextPoolState);
   context.LPPoolV2State.set(nextPoolV2State);
+  await recordPoolDexPrices(
+    context,
+    poolConfig,
+    nextPrices.token0Price,
+    nextPrices.token1Price,
+    timestamp
+  );
 
   return { poolState: nextPoolState, poolV2State: nextPoolV2State };
 }
@@ -2033,6 +2060,7 @@ NonfungiblePositionManager.IncreaseLiquidity.handler(async ({ event, context })
     await addPositionToUserIndex(context, owner, positionId, timestamp);
     await updateUserLPStats(context, owner, timestamp);
     await updatePoolLPStats(context, poolConfig.pool, timestamp);
+    await recordUserPortfolioDay(context, owner, timestamp);
 
     // Clean up mint data
     if (mintData) {
@@ -2134,6 +2162,7 @@ NonfungiblePositionManager.IncreaseLiquidity.handler(async ({ event, context })
   );
   await updateUserLPStats(context, position.user_id, timestamp);
   await updatePoolLPStats(context, position.pool, timestamp);
+  await recordUserPortfolioDay(context, position.user_id, timestamp);
 });
 
 NonfungiblePositionManager.DecreaseLiquidity.handler(async ({ event, context }) => {
@@ -2238,6 +2267,7 @@ NonfungiblePositionManager.DecreaseLiquidity.handler(async ({ event, context })
   );
   await updateUserLPStats(context, position.user_id, timestamp);
   await updatePoolLPStats(context, position.pool, timestamp);
+  await recordUserPortfolioDay(context, position.user_id, timestamp);
 });
 
 NonfungiblePositionManager.Transfer.handler(async ({ event, context }) => {
@@ -2521,6 +2551,8 @@ NonfungiblePositionManager.Transfer.handler(async ({ event, context }) => {
     await updateUserLPStats(context, oldOwner, timestamp);
     await updateUserLPStats(context, to, timestamp);
     await updatePoolLPStats(context, position.pool, timestamp);
+    await recordUserPortfolioDay(context, oldOwner, timestamp);
+    await recordUserPortfolioDay(context, to, timestamp);
   }
 });
 
@@ -2576,6 +2608,7 @@ UniswapV3Pool.Initialize.handler(async ({ event, context }) => {
     feeProtocol1: 0,
     lastUpdate: timestamp,
   });
+  await recordPoolDexPrices(context, poolConfig, token0Price, token1Price, timestamp);
 });
 
 UniswapV3Pool.Swap.handler(async ({ event, context }) => {
@@ -2634,6 +2667,7 @@ UniswapV3Pool.Swap.handler(async ({ event, context }) => {
     feeProtocol1: prevFeeProtocol1,
     lastUpdate: timestamp,
   });
+  await recordPoolDexPrices(context, poolConfig, token0Price, token1Price, timestamp);
 
   // If tick changed significantly, update in-range status for affected positions
   // This is expensive, so we only do it on significant tick changes
@@ -3141,6 +3175,13 @@ UniswapV2Pair.Sync.handler(async ({ event, context }) => {
     lpTotalSupply: poolV2State.lpTotalSupply,
     lastUpdate: timestamp,
   });
+  await recordPoolDexPrices(
+    context,
+    poolConfig,
+    nextPrices.token0Price,
+    nextPrices.token1Price,
+    timestamp
+  );
 
   await settleV2PoolPositions(context, pool, timestamp);
 });
@@ -13,10 +13,22 @@ import {
   getReserveNormalizedVariableDebt,
   addReserveToUserList,
 } from './shared';
-import { calculateGrowth } from '../helpers/math';
+import { calculateGrowth, toDecimal } from '../helpers/math';
 import { getHistoryEntityId } from '../helpers/entityHelpers';
 import { updateReserveUsdValues } from '../helpers/protocolAggregation';
-import { normalizeAddress } from '../helpers/constants';
+import { getCollateralParams, refreshUserHealth } from '../helpers/userHealth';
+import { recordReserveMarketData } from '../helpers/reserveMarketData';
+import { updateFlashLoanAggregates } from '../helpers/flashLoans';
+import { updateReserveCapUtilization } from '../helpers/reserveCaps';
+import { recordDelegatedBorrow } from '../helpers/creditDelegation';
+import { recordUserPortfolioDay } from '../helpers/userPortfolio';
+import { recordReserveTreasuryRevenue } from '../helpers/treasuryRevenue';
+import {
+  detectBadDebt,
+  splitLiquidatedCollateral,
+  updateLiquidationAggregates,
+} from '../helpers/liquidations';
+import { isGatewayAddress, normalizeAddress } from '../helpers/constants';
 
 async function resolvePoolId(context: handlerContext, contractAddress: string): Promise<string> {
   const normalized = normalizeAddress(contractAddress);
@@ -123,6 +135,8 @@ async function updateUsageAsCollateral(
       });
     }
   }
+
+  await refreshUserHealth(context, userId, poolId, timestamp);
 }
 
 async function maybeStoreEpochEndReserveSnapshot(
@@ -289,6 +303,17 @@ Pool.Supply.handler(async ({ event, context }) => {
       blockNumber: Number(event.block.number),
       logIndex: Number(event.logIndex),
     });
+
+    await recordReserveMarketData(context, reserveId, Number(event.block.timestamp), {
+      kind: 'deposit',
+      amount: event.params.amount,
+    });
+    await updateReserveCapUtilization(context, reserveId, {
+      txHash: event.transaction.hash,
+      logIndex: event.logIndex,
+      timestamp: Number(event.block.timestamp),
+    });
+    await recordUserPortfolioDay(context, userId, Number(event.block.timestamp));
     /* c8 ignore start */
   } catch (error) {
     context.log.error(`Failed to process Supply event: ${error}`);
@@ -309,6 +334,23 @@ Pool.Withdraw.handler(async ({ event, context }) => {
   // - event.params.user can be the caller, not the actual aToken holder.
   // - gateway withdrawals emit the gateway as user.
   // The AToken.Burn handler creates RedeemUnderlying with the correct owner.
+  // Market volume only needs the reserve and amount.
+  const poolId = await resolvePoolId(context, event.srcAddress);
+  const reserveId = `${normalizeAddress(event.params.reserve)}-${poolId}`;
+  await recordReserveMarketData(context, reserveId, Number(event.block.timestamp), {
+    kind: 'withdraw',
+    amount: event.params.amount,
+  });
+  await updateReserveCapUtilization(context, reserveId, {
+    txHash: event.transaction.hash,
+    logIndex: event.logIndex,
+    timestamp: Number(event.block.timestamp),
+  });
+
+  const withdrawer = normalizeAddress(event.params.user);
+  if (!isGatewayAddress(withdrawer)) {
+    await recordUserPortfolioDay(context, withdrawer, Number(event.block.timestamp));
+  }
 });
 
 Pool.Borrow.handler(async ({ event, context }) => {
@@ -381,6 +423,38 @@ Pool.Borrow.handler(async ({ event, context }) => {
       blockNumber: Number(event.block.number),
       logIndex: Number(event.logIndex),
     });
+
+    // Gateway borrows are the user's own borrow routed through a delegation to
+    // the gateway, not credit drawn by a third party.
+    const callerId = normalizeAddress(event.params.user);
+    if (callerId !== userId && !isGatewayAddress(callerId)) {
+      const reserve = await context.Reserve.get(reserveId);
+      await recordDelegatedBorrow(context, {
+        id,
+        txHash: event.transaction.hash,
+        poolId,
+        reserveId,
+        asset: reserveAddress,
+        delegator: userId,
+        delegatee: callerId,
+        borrowRateMode: Number(event.params.interestRateMode),
+        amount: event.params.amount,
+        decimals: reserve?.decimals ?? 18,
+        assetPriceUSD,
+        timestamp: Number(event.block.timestamp),
+      });
+    }
+
+    await recordReserveMarketData(context, reserveId, Number(event.block.timestamp), {
+      kind: 'borrow',
+      amount: event.params.amount,
+    });
+    await updateReserveCapUtilization(context, reserveId, {
+      txHash: event.transaction.hash,
+      logIndex: event.logIndex,
+      timestamp: Number(event.block.timestamp),
+    });
+    await recordUserPortfolioDay(context, userId, Number(event.block.timestamp));
     /* c8 ignore start */
   } catch (error) {
     context.log.error(`Failed to process Borrow event: ${error}`);
@@ -441,6 +515,17 @@ Pool.Repay.handler(async ({ event, context }) => {
     blockNumber: Number(event.block.number),
     logIndex: Number(event.logIndex),
   });
+
+  await recordReserveMarketData(context, reserveId, Number(event.block.timestamp), {
+    kind: 'repay',
+    amount: event.params.amount,
+  });
+  await updateReserveCapUtilization(context, reserveId, {
+    txHash: event.transaction.hash,
+    logIndex: event.logIndex,
+    timestamp: Number(event.block.timestamp),
+  });
+  await recordUserPortfolioDay(context, userId, Number(event.block.timestamp));
 });
 
 Pool.FlashLoan.handler(async ({ event, context }) => {
@@ -501,6 +586,27 @@ Pool.FlashLoan.handler(async ({ event, context }) => {
     assetPriceUSD,
     timestamp: Number(event.block.timestamp),
   });
+
+  await updateFlashLoanAggregates(context, {
+    poolId,
+    reserveId,
+    initiator: normalizeAddress(event.params.initiator),
+    target: normalizeAddress(event.params.target),
+    amount: event.params.amount,
+    premium,
+    lpPremium: lpFee,
+    protocolPremium: protocolFee,
+    decimals: reserve?.decimals ?? 18,
+    assetPriceUSD,
+    timestamp: Number(event.block.timestamp),
+  });
+  await recordReserveTreasuryRevenue(
+    context,
+    reserveId,
+    'flashLoanPremium',
+    protocolFee,
+    Number(event.block.timestamp)
+  );
 });
 
 Pool.LiquidationCall.handler(async ({ event, context }) => {
@@ -546,6 +652,28 @@ Pool.LiquidationCall.handler(async ({ event, context }) => {
       Number(event.block.timestamp)
     );
 
+    const user = await context.User.get(userId);
+    const collateralParams = collateralReserve
+      ? await getCollateralParams(context, collateralReserve, user?.eModeCategoryId_id)
+      : undefined;
+    const split = splitLiquidatedCollateral(
+      event.params.liquidatedCollateralAmount,
+      collateralParams?.liquidationBonus ?? 0n,
+      collateralReserve?.liquidationProtocolFee ?? 0n
+    );
+    const debtReserve = await context.Reserve.get(debtReserveId);
+    const collateralDecimals = collateralReserve?.decimals ?? 18;
+    const collateralAmountUSD =
+      toDecimal(event.params.liquidatedCollateralAmount, collateralDecimals) *
+      collateralAssetPriceUSD;
+    const principalAmountUSD =
+      toDecimal(event.params.debtToCover, debtReserve?.decimals ?? 18) * borrowAssetPriceUSD;
+    const liquidationBonusUSD =
+      toDecimal(split.liquidationBonusAmount, collateralDecimals) * collateralAssetPriceUSD;
+    const protocolFeeUSD =
+      toDecimal(split.protocolFeeAmount, collateralDecimals) * collateralAssetPriceUSD;
+    const liquidatorProfitUSD = collateralAmountUSD - principalAmountUSD;
+
     const id = `${event.transaction.hash}-${event.logIndex}`;
     context.LiquidationCall.set({
       id,
@@ -563,8 +691,59 @@ Pool.LiquidationCall.handler(async ({ event, context }) => {
       collateralAssetPriceUSD,
       borrowAssetPriceUSD,
       timestamp: Number(event.block.timestamp),
+      liquidationBonusAmount: split.liquidationBonusAmount,
+      protocolFeeAmount: split.protocolFeeAmount,
+      collateralAmountUSD,
+      principalAmountUSD,
+      liquidationBonusUSD,
+      protocolFeeUSD,
+      liquidatorProfitUSD,
     });
 
+    await updateLiquidationAggregates(context, {
+      poolId,
+      liquidator: normalizeAddress(event.params.liquidator),
+      collateralReserveId,
+      principalReserveId: debtReserveId,
+      collateralAmount: split.totalCollateral,
+      principalAmount: event.params.debtToCover,
+      collateralSeizedUSD: collateralAmountUSD + protocolFeeUSD,
+      principalAmountUSD,
+      liquidationBonusUSD,
+      protocolFeeUSD,
+      liquidatorProfitUSD,
+      timestamp: Number(event.block.timestamp),
+    });
+
+    await recordReserveTreasuryRevenue(
+      context,
+      collateralReserveId,
+      'liquidationProtocolFee',
+      split.protocolFeeAmount,
+      Number(event.block.timestamp)
+    );
+
+    await detectBadDebt(context, {
+      poolId,
+      userId,
+      liquidationId: id,
+      txHash: event.transaction.hash,
+      timestamp: Number(event.block.timestamp),
+    });
+
+    await recordReserveMarketData(context, debtReserveId, Number(event.block.timestamp), {
+      kind: 'liquidation',
+      amount: event.params.debtToCover,
+    });
+    for (const capReserveId of [collateralReserveId, debtReserveId]) {
+      await updateReserveCapUtilization(context, capReserveId, {
+        txHash: event.transaction.hash,
+        logIndex: event.logIndex,
+        timestamp: Number(event.block.timestamp),
+      });
+    }
+    await recordUserPortfolioDay(context, userId, Number(event.block.timestamp));
+
     // Feed row attaches to the principal (debt) reserve with the repaid amount.
     context.ReserveTx.set({
       id,
@@ -705,6 +884,12 @@ Pool.ReserveDataUpdated.handler(async ({ event, context }) => {
 
     // Update USD aggregates with new accrued interest
     await updateReserveUsdValues(context, reserveId, reserveAddress, Number(event.block.timestamp));
+    await recordReserveMarketData(context, reserveId, Number(event.block.timestamp));
+    await updateReserveCapUtilization(context, reserveId, {
+      txHash: event.transaction.hash,
+      logIndex: event.logIndex,
+      timestamp: Number(event.block.timestamp),
+    });
   }
 });
 
@@ -737,6 +922,13 @@ Pool.MintedToTreasury.handler(async ({ event, context }) => {
       ...reserve,
       lifetimeReserveFactorAccrued: newProtocolAccrued,
     });
+    await recordReserveTreasuryRevenue(
+      context,
+      reserveId,
+      'mintedToTreasury',
+      event.params.amountMinted,
+      Number(event.block.timestamp)
+    );
 
     const ps = await context.ProtocolStats.get('1');
     if (ps) {
@@ -773,6 +965,7 @@ Pool.MintedToTreasury.handler(async ({ event, context }) => {
         priceE8: 0n,
         lastSuppliersInterestEarnedToken: 0n,
         lastProtocolAccruedToken: newProtocolAccrued,
+        badDebtUsd: 0,
         updatedAt: Number(event.block.timestamp),
       });
     }
@@ -797,6 +990,13 @@ Pool.UserEModeSet.handler(async ({ event, context }) => {
     });
   }
 
+  await refreshUserHealth(
+    context,
+    userId,
+    await resolvePoolId(context, event.srcAddress),
+    Number(event.block.timestamp)
+  );
+
   const historyId = getHistoryEntityId(event.transaction.hash, Number(event.logIndex));
   context.UserEModeSet.set({
     id: historyId,
@@ -913,6 +1113,17 @@ Pool.IsolationModeTotalDebtUpdated.handler(async ({ event, context }) => {
     reserve_id: reserveId,
     timestamp: Number(event.block.timestamp),
   });
+
+  await updateReserveCapUtilization(
+    context,
+    reserveId,
+    {
+      txHash: event.transaction.hash,
+      logIndex: event.logIndex,
+      timestamp: Number(event.block.timestamp),
+    },
+    event.params.totalDebt
+  );
 });
 
 Pool.SwapBorrowRateMode.handler(async ({ event, context }) => {
@@ -7,6 +7,8 @@
  */
 
 import { normalizeAddress } from '../helpers/constants';
+import { recordGovernanceAction } from '../helpers/governance';
+import { recordDustTreasuryRevenue, setTreasuryRevenueRecipient } from '../helpers/treasuryRevenue';
 import { getOrCreateUser, recordProtocolTransaction } from './shared';
 
 import { NeverlandProfileItemsSeller } from '../../generated';
@@ -88,6 +90,10 @@ function userStatsId(seller: string, user: string): string {
   return `${seller}:${user}`;
 }
 
+function revenueRecipientId(seller: string): string {
+  return `profileShop-${seller}`;
+}
+
 async function getOrCreateShopItem(
   context: handlerContext,
   seller: string,
@@ -443,12 +449,26 @@ NeverlandProfileItemsSeller.ItemPurchased.handler(async ({ event, context }) =>
     firstEventAt: firstTimestamp(state.firstEventAt, timestamp),
     lastUpdate: timestamp,
   });
+
+  await recordDustTreasuryRevenue(
+    context,
+    revenueRecipientId(seller),
+    'profileShopRevenue',
+    event.params.totalPrice,
+    timestamp
+  );
 });
 
 NeverlandProfileItemsSeller.FundsRecipientUpdated.handler(async ({ event, context }) => {
   const timestamp = Number(event.block.timestamp);
   const blockNumber = BigInt(event.block.number);
   await recordProtocolTransaction(context, event.transaction.hash, timestamp, blockNumber);
+  recordGovernanceAction(context, event, {
+    contractName: 'NeverlandProfileItemsSeller',
+    action: 'FundsRecipientUpdated',
+    oldValue: event.params.oldFundsRecipient,
+    newValue: event.params.newFundsRecipient,
+  });
 
   const seller = sellerAddress(event);
   const state = await getOrCreateShopState(context, seller, timestamp);
@@ -460,6 +480,13 @@ NeverlandProfileItemsSeller.FundsRecipientUpdated.handler(async ({ event, contex
     firstEventAt: firstTimestamp(state.firstEventAt, timestamp),
     lastUpdate: timestamp,
   });
+  await setTreasuryRevenueRecipient(
+    context,
+    revenueRecipientId(seller),
+    'profileShopRevenue',
+    newFundsRecipient,
+    timestamp
+  );
 
   context.ProfileShopFundsRecipientUpdate.set({
     id: eventId(event),
@@ -477,6 +504,12 @@ NeverlandProfileItemsSeller.OwnershipTransferStarted.handler(async ({ event, con
   const timestamp = Number(event.block.timestamp);
   const blockNumber = BigInt(event.block.number);
   await recordProtocolTransaction(context, event.transaction.hash, timestamp, blockNumber);
+  recordGovernanceAction(context, event, {
+    contractName: 'NeverlandProfileItemsSeller',
+    action: 'OwnershipTransferStarted',
+    oldValue: event.params.previousOwner,
+    newValue: event.params.newOwner,
+  });
 
   const seller = sellerAddress(event);
   const state = await getOrCreateShopState(context, seller, timestamp);
@@ -506,6 +539,12 @@ NeverlandProfileItemsSeller.OwnershipTransferred.handler(async ({ event, context
   const timestamp = Number(event.block.timestamp);
   const blockNumber = BigInt(event.block.number);
   await recordProtocolTransaction(context, event.transaction.hash, timestamp, blockNumber);
+  recordGovernanceAction(context, event, {
+    contractName: 'NeverlandProfileItemsSeller',
+    action: 'OwnershipTransferred',
+    oldValue: event.params.previousOwner,
+    newValue: event.params.newOwner,
+  });
 
   const seller = sellerAddress(event);
   const state = await getOrCreateShopState(context, seller, timestamp);
@@ -536,6 +575,11 @@ NeverlandProfileItemsSeller.Paused.handler(async ({ event, context }) => {
   const timestamp = Number(event.block.timestamp);
   const blockNumber = BigInt(event.block.number);
   await recordProtocolTransaction(context, event.transaction.hash, timestamp, blockNumber);
+  recordGovernanceAction(context, event, {
+    contractName: 'NeverlandProfileItemsSeller',
+    action: 'Paused',
+    target: event.params.account,
+  });
 
   const seller = sellerAddress(event);
   const state = await getOrCreateShopState(context, seller, timestamp);
@@ -563,6 +607,11 @@ NeverlandProfileItemsSeller.Unpaused.handler(async ({ event, context }) => {
   const timestamp = Number(event.block.timestamp);
   const blockNumber = BigInt(event.block.number);
   await recordProtocolTransaction(context, event.transaction.hash, timestamp, blockNumber);
+  recordGovernanceAction(context, event, {
+    contractName: 'NeverlandProfileItemsSeller',
+    action: 'Unpaused',
+    target: event.params.account,
+  });
 
   const seller = sellerAddress(event);
   const state = await getOrCreateShopState(context, seller, timestamp);
@@ -6,6 +6,15 @@
 import type { handlerContext } from '../../generated';
 import { RewardsController, RevenueReward, DustToken } from '../../generated';
 import { ZERO_ADDRESS, normalizeAddress } from '../helpers/constants';
+import { recordUserPortfolioDay } from '../helpers/userPortfolio';
+import { recordGovernanceAction } from '../helpers/governance';
+import { recordDustBalanceTransfer } from '../helpers/dustHolders';
+import { recordDustSupplySnapshot } from '../helpers/dustSupply';
+import { recordClosedEmissionPeriod } from '../helpers/emissionSchedule';
+import { setRewardAprFeedOracle, updateRewardApr } from '../helpers/incentiveApr';
+import { recordRevenueRewardClaim, settleIdleRevenueRewards } from '../helpers/revenueRewards';
+import { recordUserRewardAccrued, recordUserRewardClaimed } from '../helpers/userRewards';
+import { getRevenueRewardUsd, recordVeDustAprSnapshot } from '../helpers/veDustApr';
 import { recordProtocolTransaction, getOrCreateUser, getOrCreateProtocolStats } from './shared';
 
 async function getOrCreateDustTokenStat(context: handlerContext) {
@@ -19,6 +28,8 @@ async function getOrCreateDustTokenStat(context: handlerContext) {
       ownershipChangeCount: 0n,
       pauseEventCount: 0n,
       paused: false,
+      holderCount: 0,
+      totalSupply: 0n,
       lastUpdate: 0,
     };
     context.DustTokenStat.set(stat);
@@ -67,10 +78,38 @@ RewardsController.AssetConfigUpdated.handler(async ({ event, context }) => {
     emittedAmount,
     timestamp,
   });
+  await recordClosedEmissionPeriod(
+    context,
+    { id, rewardsController: controllerId, asset, reward: rewardAddress },
+    emittedAmount,
+    timestamp
+  );
 
-  const controller = await context.RewardsController.get(controllerId);
-  if (!controller) {
-    context.RewardsController.set({ id: controllerId });
+  const controller = (await context.RewardsController.get(controllerId)) ?? {
+    id: controllerId,
+    assetCount: 0,
+  };
+  const controllerAssetId = `${controllerId}-${asset}`;
+  if (!(await context.RewardsControllerAsset.get(controllerAssetId))) {
+    context.RewardsControllerAsset.set({
+      id: controllerAssetId,
+      rewardsController: controllerId,
+      asset,
+      listIndex: controller.assetCount,
+      addedAt: timestamp,
+    });
+    context.RewardsController.set({ ...controller, assetCount: controller.assetCount + 1 });
+  }
+
+  let oracle = await context.RewardFeedOracle.get(rewardAddress);
+  if (!oracle) {
+    oracle = {
+      id: rewardAddress,
+      rewardFeedAddress: ZERO_ADDRESS,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    };
+    context.RewardFeedOracle.set(oracle);
   }
 
   const rewardId = `${controllerId}:${asset}:${rewardAddress}`;
@@ -92,7 +131,8 @@ RewardsController.AssetConfigUpdated.handler(async ({ event, context }) => {
       updatedAt: timestamp,
       rewardTokenDecimals: 18,
       rewardTokenSymbol: 'RWD',
-      rewardFeedOracle: rewardAddress,
+      rewardFeedOracle:
+        oracle.rewardFeedAddress !== ZERO_ADDRESS ? oracle.rewardFeedAddress : rewardAddress,
     };
   } else {
     reward = {
@@ -104,17 +144,6 @@ RewardsController.AssetConfigUpdated.handler(async ({ event, context }) => {
     };
   }
 
-  let oracle = await context.RewardFeedOracle.get(rewardAddress);
-  if (!oracle) {
-    oracle = {
-      id: rewardAddress,
-      rewardFeedAddress: ZERO_ADDRESS,
-      createdAt: timestamp,
-      updatedAt: timestamp,
-    };
-    context.RewardFeedOracle.set(oracle);
-  }
-
   context.Reward.set(reward);
 
   context.RewardAssetConfig.set({
@@ -127,6 +156,17 @@ RewardsController.AssetConfigUpdated.handler(async ({ event, context }) => {
     assetIndex: event.params.assetIndex,
     updatedAt: timestamp,
   });
+
+  await updateRewardApr(context, {
+    configId: id,
+    rewardsController: controllerId,
+    asset,
+    reward: rewardAddress,
+    rewardFeedOracle: reward.rewardFeedOracle,
+    emissionsPerSecond: event.params.newEmission,
+    distributionEnd: Number(event.params.newDistributionEnd),
+    timestamp,
+  });
 });
 
 RewardsController.Accrued.handler(async ({ event, context }) => {
@@ -184,6 +224,17 @@ RewardsController.Accrued.handler(async ({ event, context }) => {
   }
 
   context.UserReward.set(userReward);
+  await recordUserRewardAccrued(context, {
+    rewardsController: normalizeAddress(event.srcAddress),
+    asset: normalizeAddress(event.params.asset),
+    rewardToken: normalizeAddress(event.params.reward),
+    user: userAddress,
+    userIndex: event.params.userIndex,
+    amount,
+    txHash: event.transaction.hash,
+    logIndex: event.logIndex,
+    timestamp,
+  });
 
   const rewardedId = `${event.transaction.hash}-${event.logIndex}`;
   context.RewardedAction.set({
@@ -232,6 +283,18 @@ RewardsController.RewardsClaimed.handler(async ({ event, context }) => {
     action: 'ClaimRewardsCall',
     timestamp: Number(event.block.timestamp),
   });
+
+  await recordUserRewardClaimed(context, {
+    rewardsController: normalizeAddress(event.srcAddress),
+    rewardToken: normalizeAddress(event.params.reward),
+    user: userAddress,
+    amount,
+    txHash: event.transaction.hash,
+    logIndex: event.logIndex,
+    timestamp: Number(event.block.timestamp),
+  });
+
+  await recordUserPortfolioDay(context, userAddress, Number(event.block.timestamp));
 });
 
 RewardsController.ClaimerSet.handler(async ({ event, context }) => {
@@ -270,6 +333,33 @@ RewardsController.TransferStrategyInstalled.handler(async ({ event, context }) =
   });
 });
 
+RewardsController.RewardOracleUpdated.handler(async ({ event, context }) => {
+  await recordProtocolTransaction(
+    context,
+    event.transaction.hash,
+    Number(event.block.timestamp),
+    BigInt(event.block.number)
+  );
+  const timestamp = Number(event.block.timestamp);
+  const rewardAddress = normalizeAddress(event.params.reward);
+  const feedAddress = normalizeAddress(event.params.rewardOracle);
+
+  const oracle = await context.RewardFeedOracle.get(rewardAddress);
+  context.RewardFeedOracle.set({
+    id: rewardAddress,
+    rewardFeedAddress: feedAddress,
+    createdAt: oracle?.createdAt ?? timestamp,
+    updatedAt: timestamp,
+  });
+
+  // Reward.updatedAt is the time of its index, so only the oracle changes.
+  const rewards = await context.Reward.getWhere.rewardToken.eq(rewardAddress);
+  for (const reward of rewards) {
+    context.Reward.set({ ...reward, rewardFeedOracle: feedAddress });
+  }
+  await setRewardAprFeedOracle(context, rewardAddress, feedAddress, timestamp);
+});
+
 // ============================================
 // RevenueReward Handlers
 // ============================================
@@ -284,12 +374,19 @@ RevenueReward.NotifyReward.handler(async ({ event, context }) => {
   const id = `${event.transaction.hash}-${event.logIndex}`;
   const from = normalizeAddress(event.params.from);
   const rewardToken = normalizeAddress(event.params.token);
+  const amountUsd = await getRevenueRewardUsd(
+    context,
+    rewardToken,
+    event.params.amount,
+    Number(event.block.timestamp)
+  );
 
   context.RevenueRewardNotification.set({
     id,
     from,
     rewardToken,
     amount: event.params.amount,
+    amountUsd,
     epochId: event.params.epoch,
     timestamp: Number(event.block.timestamp),
     txHash: event.transaction.hash,
@@ -330,6 +427,14 @@ RevenueReward.NotifyReward.handler(async ({ event, context }) => {
     };
   }
   context.RevenueRewardEpoch.set(rewardEpoch);
+
+  await recordVeDustAprSnapshot(
+    context,
+    Number(event.params.epoch),
+    amountUsd,
+    Number(event.block.timestamp)
+  );
+  await settleIdleRevenueRewards(context, Number(event.block.timestamp));
 });
 
 RevenueReward.ClaimRewards.handler(async ({ event, context }) => {
@@ -363,6 +468,14 @@ RevenueReward.ClaimRewards.handler(async ({ event, context }) => {
     });
   }
 
+  await recordRevenueRewardClaim(
+    context,
+    event.params.tokenId.toString(),
+    rewardToken,
+    event.params.amount,
+    Number(event.block.timestamp)
+  );
+
   await getOrCreateUser(context, userAddress);
 });
 
@@ -454,16 +567,30 @@ DustToken.Transfer.handler(async ({ event, context }) => {
     BigInt(event.block.number)
   );
   const timestamp = Number(event.block.timestamp);
+  const id = `${event.transaction.hash}-${event.logIndex}`;
+  const from = normalizeAddress(event.params.from);
+  const to = normalizeAddress(event.params.to);
+
+  const holderDelta = await recordDustBalanceTransfer(
+    context,
+    from,
+    to,
+    event.params.value,
+    timestamp
+  );
   const stat = await getOrCreateDustTokenStat(context);
+  let totalSupply = stat.totalSupply;
+  if (from === ZERO_ADDRESS) totalSupply += event.params.value;
+  if (to === ZERO_ADDRESS) totalSupply -= event.params.value;
   context.DustTokenStat.set({
     ...stat,
     transferCount: stat.transferCount + 1n,
+    holderCount: stat.holderCount + holderDelta,
+    totalSupply,
     lastUpdate: timestamp,
   });
-  const id = `${event.transaction.hash}-${event.logIndex}`;
+  await recordDustSupplySnapshot(context, totalSupply, timestamp);
 
-  const from = normalizeAddress(event.params.from);
-  const to = normalizeAddress(event.params.to);
   context.DustTransfer.set({
     id,
     from,
@@ -531,6 +658,12 @@ DustToken.OwnershipTransferStarted.handler(async ({ event, context }) => {
     Number(event.block.timestamp),
     BigInt(event.block.number)
   );
+  recordGovernanceAction(context, event, {
+    contractName: 'DustToken',
+    action: 'OwnershipTransferStarted',
+    oldValue: event.params.previousOwner,
+    newValue: event.params.newOwner,
+  });
   const timestamp = Number(event.block.timestamp);
   const stat = await getOrCreateDustTokenStat(context);
   context.DustTokenStat.set({
@@ -556,6 +689,12 @@ DustToken.OwnershipTransferred.handler(async ({ event, context }) => {
     Number(event.block.timestamp),
     BigInt(event.block.number)
   );
+  recordGovernanceAction(context, event, {
+    contractName: 'DustToken',
+    action: 'OwnershipTransferred',
+    oldValue: event.params.previousOwner,
+    newValue: event.params.newOwner,
+  });
   const timestamp = Number(event.block.timestamp);
   const stat = await getOrCreateDustTokenStat(context);
   context.DustTokenStat.set({
@@ -581,6 +720,11 @@ DustToken.Paused.handler(async ({ event, context }) => {
     Number(event.block.timestamp),
     BigInt(event.block.number)
   );
+  recordGovernanceAction(context, event, {
+    contractName: 'DustToken',
+    action: 'Paused',
+    target: event.params.account,
+  });
   const timestamp = Number(event.block.timestamp);
   const stat = await getOrCreateDustTokenStat(context);
   context.DustTokenStat.set({
@@ -607,6 +751,11 @@ DustToken.Unpaused.handler(async ({ event, context }) => {
     Number(event.block.timestamp),
     BigInt(event.block.number)
   );
+  recordGovernanceAction(context, event, {
+    contractName: 'DustToken',
+    action: 'Unpaused',
+    target: event.params.account,
+  });
   const timestamp = Number(event.block.timestamp);
   const stat = await getOrCreateDustTokenStat(context);
   context.DustTokenStat.set({
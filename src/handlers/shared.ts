@@ -7,6 +7,7 @@ import {
   DEFAULT_BORROW_RATE_BPS,
   DEFAULT_DEPOSIT_RATE_BPS,
   DUST_LOCK_START_BLOCK,
+  DUST_TOKEN_ADDRESS,
   EARNAUSD_ADDRESS,
   LEADERBOARD_START_BLOCK,
   MAX_MULTIPLIER,
@@ -903,6 +904,7 @@ export async function addReserveToUserList(
       reserveIds: nextIds,
       lastUpdate: timestamp,
     });
+    await registerUserHealthHolder(context, normalizedReserveId, normalizedUser, timestamp);
     return;
   }
 
@@ -914,6 +916,32 @@ export async function addReserveToUserList(
   }
 }
 
+/**
+ * Appends the user to the reserve's ordered holder index, which the price
+ * driven health sweep pages through by slot.
+ */
+async function registerUserHealthHolder(
+  context: handlerContext,
+  reserveId: string,
+  userId: string,
+  timestamp: number
+): Promise<void> {
+  const registry = await context.UserHealthHolderRegistry.get(reserveId);
+  const slot = registry?.holderCount ?? 0;
+  context.UserHealthHolder.set({
+    id: `${reserveId}-${slot}`,
+    reserve_id: reserveId,
+    slot,
+    user_id: userId,
+    addedAt: timestamp,
+  });
+  context.UserHealthHolderRegistry.set({
+    id: reserveId,
+    holderCount: slot + 1,
+    lastUpdate: timestamp,
+  });
+}
+
 // ============================================
 // Voting Power Helpers
 // ============================================
@@ -1670,6 +1698,62 @@ export async function getAssetPriceUSD(
   return Number(priceOracle.priceInEth) / USD_PRECISION;
 }
 
+/**
+ * DUST has no reserve oracle; use the price implied by the tracked LP pools
+ * (DexPrice). Returns 0 until a pool price has been seen.
+ */
+export async function getDustPriceUSD(context: handlerContext): Promise<number> {
+  const dex = await context.DexPrice.get(DUST_TOKEN_ADDRESS);
+  return dex?.priceUsd ?? 0;
+}
+
+/**
+ * USD price of any token: DUST from the LP pools, anything else through the
+ * reserve oracle.
+ */
+export async function getTokenPriceUSD(
+  context: handlerContext,
+  tokenAddress: string,
+  timestamp?: number
+): Promise<number> {
+  const token = normalizeAddress(tokenAddress);
+  if (token === DUST_TOKEN_ADDRESS) return getDustPriceUSD(context);
+  return getAssetPriceUSD(context, token, timestamp);
+}
+
+/**
+ * USD price of a token from a real observation only: its last successful
+ * oracle read, else its LP-implied DexPrice. Undefined when the token only
+ * has an ensureAssetPrice seed or default price.
+ */
+export async function getObservedTokenPriceUSD(
+  context: handlerContext,
+  tokenAddress: string
+): Promise<number | undefined> {
+  const token = normalizeAddress(tokenAddress);
+  const health = await context.OracleHealth.get(token);
+  if (health?.lastSuccessAt !== undefined && health.lastPriceUsd > 0) {
+    return health.lastPriceUsd;
+  }
+  const dex = await context.DexPrice.get(token);
+  return dex && dex.priceUsd > 0 ? dex.priceUsd : undefined;
+}
+
+/**
+ * Decimals of a token that may not be a reserve: the reserve it underlies,
+ * else its TokenInfo, else 18.
+ */
+export async function resolveTokenDecimals(
+  context: handlerContext,
+  tokenAddress: string
+): Promise<number> {
+  const token = normalizeAddress(tokenAddress);
+  const reserves = await context.Reserve.getWhere.underlyingAsset.eq(token);
+  if (reserves.length > 0) return reserves[0].decimals;
+  const tokenInfo = await context.TokenInfo.get(token);
+  return tokenInfo?.decimals ?? 18;
+}
+
 export async function ensureAssetPrice(
   context: handlerContext,
   assetAddress: string,
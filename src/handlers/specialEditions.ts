@@ -7,6 +7,7 @@
  */
 
 import { normalizeAddress } from '../helpers/constants';
+import { recordGovernanceAction } from '../helpers/governance';
 import {
   ZERO_ADDRESS,
   applyUserSpecialEditionDelta,
@@ -436,4 +437,10 @@ SpecialEditionRegistry.PublisherUpdated.handler(async ({ event, context }) => {
     Number(event.block.timestamp),
     BigInt(event.block.number)
   );
+  recordGovernanceAction(context, event, {
+    contractName: 'SpecialEditionRegistry',
+    action: 'PublisherUpdated',
+    oldValue: event.params.oldPublisher,
+    newValue: event.params.newPublisher,
+  });
 });
@@ -25,7 +25,17 @@ import {
   awardDailyWithdrawPoints,
   awardDailyRepayPoints,
 } from './shared';
+import { recordFeedOraclePrice } from '../helpers/incentiveApr';
+import { recordOracleObservation } from '../helpers/oracleHealth';
+import { recordAssetPriceCandles } from '../helpers/priceCandles';
 import { updateReserveUsdValues } from '../helpers/protocolAggregation';
+import {
+  recordReserveTreasuryRevenue,
+  reserveRevenueRecipientId,
+  setTreasuryRevenueRecipient,
+} from '../helpers/treasuryRevenue';
+import { refreshUserHealth, refreshUserHealthForAsset } from '../helpers/userHealth';
+import { accrueIndexedInterest, accrueStableDebtInterest } from '../helpers/userInterest';
 import {
   createDefaultReserve,
   getHistoryEntityId,
@@ -141,6 +151,16 @@ AToken.Mint.handler(async ({ event, context }) => {
       { ignoreCooldown: true }
     );
 
+    await accrueIndexedInterest(context, {
+      userReserveId,
+      userId: userAddress,
+      reserveId,
+      side: 'supply',
+      scaledBalance: userReserve.scaledATokenBalance,
+      index: event.params.index,
+      timestamp: Number(event.block.timestamp),
+    });
+
     const calculatedAmount = rayDiv(userBalanceChange, event.params.index);
 
     const newScaledBalance = userReserve.scaledATokenBalance + calculatedAmount;
@@ -205,6 +225,13 @@ AToken.Mint.handler(async ({ event, context }) => {
         totalATokenSupply: newTotalATokenSupply,
         lifetimeReserveFactorAccrued: reserve.lifetimeReserveFactorAccrued + userBalanceChange,
       });
+      await recordReserveTreasuryRevenue(
+        context,
+        reserveId,
+        'reserveFactorInterest',
+        userBalanceChange,
+        Number(event.block.timestamp)
+      );
 
       await updateReserveUsdValues(
         context,
@@ -244,6 +271,7 @@ AToken.Mint.handler(async ({ event, context }) => {
       Number(event.block.timestamp),
       BigInt(event.block.number)
     );
+    await refreshUserHealth(context, userAddress, poolId, Number(event.block.timestamp));
   }
 });
 
@@ -293,6 +321,16 @@ AToken.Burn.handler(async ({ event, context }) => {
   );
 
   if (userReserve) {
+    await accrueIndexedInterest(context, {
+      userReserveId,
+      userId: userAddress,
+      reserveId,
+      side: 'supply',
+      scaledBalance: userReserve.scaledATokenBalance,
+      index: event.params.index,
+      timestamp: Number(event.block.timestamp),
+    });
+
     // Subgraph: userBalanceChange = value + balanceIncrease (total withdrawn)
     const userBalanceChange = event.params.value + event.params.balanceIncrease;
     const calculatedAmount = rayDiv(userBalanceChange, event.params.index);
@@ -421,6 +459,8 @@ AToken.Burn.handler(async ({ event, context }) => {
       context.PendingGatewayWithdrawal.deleteUnsafe(pendingId);
     }
   }
+
+  await refreshUserHealth(context, userAddress, poolId, Number(event.block.timestamp));
 });
 
 AToken.BalanceTransfer.handler(async ({ event, context }) => {
@@ -525,6 +565,22 @@ AToken.BalanceTransfer.handler(async ({ event, context }) => {
     });
   }
 
+  for (const [address, userReserve] of [
+    [fromAddress, fromUserReserve],
+    [toAddress, toUserReserve],
+  ] as const) {
+    if (!userReserve) continue;
+    await accrueIndexedInterest(context, {
+      userReserveId: userReserve.id,
+      userId: address,
+      reserveId,
+      side: 'supply',
+      scaledBalance: userReserve.scaledATokenBalance,
+      index: event.params.index,
+      timestamp,
+    });
+  }
+
   const scaledAmount = event.params.value;
   const currentAmount = rayMul(event.params.value, event.params.index);
 
@@ -595,6 +651,13 @@ AToken.BalanceTransfer.handler(async ({ event, context }) => {
     await awardDailySupplyPoints(context, toAddress, timestamp, blockNumber);
   }
 
+  if (fromUserReserve) {
+    await refreshUserHealth(context, fromAddress, subToken.pool_id, timestamp);
+  }
+  if (toUserReserve) {
+    await refreshUserHealth(context, toAddress, subToken.pool_id, timestamp);
+  }
+
   const reserve = await context.Reserve.get(reserveId);
   if (reserve && fromUserReserve && toUserReserve) {
     // Use currentAmount for collateral totals to match actual liquidity
@@ -671,6 +734,13 @@ AToken.Initialized.handler(async ({ event, context }) => {
       underlyingAsset,
     });
   }
+  await setTreasuryRevenueRecipient(
+    context,
+    reserveRevenueRecipientId(reserveId),
+    'reserve',
+    event.params.treasury,
+    Number(event.block.timestamp)
+  );
 
   if (reserve) {
     const tokenInfo = getTokenMetadata(underlyingAsset);
@@ -847,6 +917,16 @@ VariableDebtToken.Mint.handler(async ({ event, context }) => {
     { ignoreCooldown: true }
   );
 
+  await accrueIndexedInterest(context, {
+    userReserveId,
+    userId: userAddress,
+    reserveId,
+    side: 'variableDebt',
+    scaledBalance: userReserve.scaledVariableDebt,
+    index: event.params.index,
+    timestamp: Number(event.block.timestamp),
+  });
+
   // Subgraph: userBalanceChange = value - balanceIncrease (actual borrow)
   const userBalanceChange = event.params.value - event.params.balanceIncrease;
   const calculatedAmount = rayDiv(userBalanceChange, event.params.index);
@@ -935,6 +1015,7 @@ VariableDebtToken.Mint.handler(async ({ event, context }) => {
     Number(event.block.timestamp),
     BigInt(event.block.number)
   );
+  await refreshUserHealth(context, userAddress, poolId, Number(event.block.timestamp));
 });
 
 VariableDebtToken.Burn.handler(async ({ event, context }) => {
@@ -968,6 +1049,16 @@ VariableDebtToken.Burn.handler(async ({ event, context }) => {
     { ignoreCooldown: true }
   );
 
+  await accrueIndexedInterest(context, {
+    userReserveId,
+    userId: userAddress,
+    reserveId,
+    side: 'variableDebt',
+    scaledBalance: userReserve.scaledVariableDebt,
+    index: event.params.index,
+    timestamp: Number(event.block.timestamp),
+  });
+
   // Subgraph: userBalanceChange = value + balanceIncrease (total repayment)
   const userBalanceChange = event.params.value + event.params.balanceIncrease;
   const calculatedAmount = rayDiv(userBalanceChange, event.params.index);
@@ -1055,6 +1146,7 @@ VariableDebtToken.Burn.handler(async ({ event, context }) => {
     Number(event.block.timestamp),
     BigInt(event.block.number)
   );
+  await refreshUserHealth(context, userAddress, poolId, Number(event.block.timestamp));
 });
 // ============================================
 // StableDebtToken Handlers
@@ -1116,6 +1208,14 @@ StableDebtToken.Mint.handler(async ({ event, context }) => {
 
   const reserve = await context.Reserve.get(reserveId);
 
+  await accrueStableDebtInterest(context, {
+    userReserveId,
+    userId: userAddress,
+    reserveId,
+    balanceIncrease: event.params.balanceIncrease,
+    timestamp: Number(event.block.timestamp),
+  });
+
   // Subgraph: borrowedAmount = amount - balanceIncrease (actual new principal)
   const borrowedAmount = event.params.amount - event.params.balanceIncrease;
   const balanceChangeIncludingInterest = event.params.amount;
@@ -1181,6 +1281,8 @@ StableDebtToken.Mint.handler(async ({ event, context }) => {
     timestamp: Number(event.block.timestamp),
     avgStableBorrowRate: event.params.avgStableRate,
   });
+
+  await refreshUserHealth(context, userAddress, poolId, Number(event.block.timestamp));
 });
 
 StableDebtToken.Burn.handler(async ({ event, context }) => {
@@ -1206,6 +1308,14 @@ StableDebtToken.Burn.handler(async ({ event, context }) => {
 
   const reserve = await context.Reserve.get(reserveId);
 
+  await accrueStableDebtInterest(context, {
+    userReserveId,
+    userId: userAddress,
+    reserveId,
+    balanceIncrease: event.params.balanceIncrease,
+    timestamp: Number(event.block.timestamp),
+  });
+
   // Subgraph uses amount directly for stable debt
   const amount = event.params.amount;
   const balanceIncrease = event.params.balanceIncrease;
@@ -1289,6 +1399,7 @@ StableDebtToken.Burn.handler(async ({ event, context }) => {
     Number(event.block.timestamp),
     BigInt(event.block.number)
   );
+  await refreshUserHealth(context, userAddress, poolId, Number(event.block.timestamp));
 });
 
 StableDebtToken.BorrowAllowanceDelegated.handler(async ({ event, context }) => {
@@ -1306,6 +1417,7 @@ StableDebtToken.BorrowAllowanceDelegated.handler(async ({ event, context }) => {
     asset,
     amount: event.params.amount,
     lastUpdate: Number(event.block.timestamp),
+    lastUpdateTxHash: event.transaction.hash,
   });
 
   const subToken = await context.SubToken.get(normalizeAddress(event.srcAddress));
@@ -1343,6 +1455,7 @@ VariableDebtToken.BorrowAllowanceDelegated.handler(async ({ event, context }) =>
     asset,
     amount: event.params.amount,
     lastUpdate: Number(event.block.timestamp),
+    lastUpdateTxHash: event.transaction.hash,
   });
 
   const subToken = await context.SubToken.get(normalizeAddress(event.srcAddress));
@@ -1610,4 +1723,29 @@ async function recordPriceObserved(
     price: normalized,
     timestamp,
   });
+
+  if (ok) {
+    await recordAssetPriceCandles(context, assetAddress, priceUsd, timestamp);
+  }
+  if (ok && priceUsd > 0) {
+    recordFeedOraclePrice(context, {
+      oracle: oracleAddress,
+      asset: assetAddress,
+      priceUsd,
+      timestamp,
+    });
+  }
+
+  await recordOracleObservation(context, {
+    asset: assetAddress,
+    oracle: oracleAddress,
+    priceUsd,
+    ok,
+    timestamp,
+  });
+
+  // A failed read is not a price; unchanged prices are skipped per reserve.
+  if (ok) {
+    await refreshUserHealthForAsset(context, assetAddress, normalized, timestamp);
+  }
 }
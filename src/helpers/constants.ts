@@ -3,7 +3,9 @@
  */
 
 // Time constants
+export const SECONDS_PER_HOUR = 3600;
 export const SECONDS_PER_DAY = 86400;
+export const SECONDS_PER_WEEK = 7 * SECONDS_PER_DAY;
 export const HOURS_PER_DAY = 24;
 export const LEADERBOARD_START_BLOCK = 46264051;
 export const DUST_LOCK_START_BLOCK = 39468872;
@@ -21,6 +23,19 @@ export const LP_BALANCER_STALE_SETTLEMENT_SECONDS = 1800;
 // Upper bound on how many LP positions a single Balancer swap will settle, to
 // keep per-event work bounded.
 export const LP_BALANCER_MAX_SETTLEMENTS_PER_SWAP = 50;
+// Upper bound on how many holders of a reserve a single oracle price update or
+// collateral configuration change re-evaluates; the rest are picked up by later
+// updates via a rotating cursor.
+export const USER_HEALTH_MAX_REFRESHES_PER_PRICE = 50;
+// Upper bound on how many veNFTs a single RevenueReward NotifyReward settles;
+// the rest are picked up by later notifications via a rotating cursor.
+export const REVENUE_REWARD_MAX_SETTLEMENTS_PER_NOTIFY = 50;
+// Upper bound on how many holders of a reserve a single reserve update
+// re-projects incentive rewards for; the rest follow via a rotating cursor.
+export const USER_REWARD_MAX_PROJECTIONS_PER_UPDATE = 50;
+// Incentive campaigns whose distributionEnd is this close are flagged on their
+// EmissionSchedule so they can be renewed in time.
+export const EMISSION_EXPIRY_WARNING_SECONDS = 7 * SECONDS_PER_DAY;
 export const BALANCER_AUTORANGE_V3_POOL_ADDRESS = '0x27da8a34579fbc99319af1c1a0f0d51065084576';
 export const BALANCER_VAULT_ADDRESS = '0xba1333333333a1ba1108e8412f11850a5c319ba9';
 
@@ -189,6 +204,10 @@ export const TREASURY_ADDRESSES = [
   '0x464c71f6c2f760dda6093dcb91c24c39e5d6e18c',
 ];
 
+// Team/vesting wallets whose DUST is excluded from circulating supply
+// (alongside TREASURY_ADDRESSES, DustLock and LP pools)
+export const DUST_SUPPLY_EXCLUDED_ADDRESSES: string[] = [];
+
 // Known token addresses
 export const WMON_ADDRESS = '0x3bd359c1119da7da1d913d1c4d2b7c461115433a';
 export const WBTC_ADDRESS = '0x0555e30da8f98308edb960aa94c0db47230d2b9c';
@@ -198,6 +217,7 @@ export const USDT0_ADDRESS = '0xe7cd86e13ac4309349f30b3435a9d337750fc82d';
 export const AUSD_ADDRESS = '0x00000000efe302beaa2b3e6e1b18d08d69a9012a';
 export const EARNAUSD_ADDRESS = '0x103222f020e98bba0ad9809a011fdf8e6f067496';
 export const SAUSD_ADDRESS = '0xd793c04b87386a6bb84ee61d98e0065fde7fda5e';
+export const DUST_TOKEN_ADDRESS = '0xad96c3dffcd6374294e2573a7fbba96097cc8d7c';
 // PT-AUSD-8OCT2026: Pendle PT reserve listed in the isolated neverland-pendle-ausd pool.
 export const PT_AUSD_8OCT2026_ADDRESS = '0x9fc74f8ed616b5baf52a170caa97d6d3898602d1';
 export const GMON_ADDRESS = '0x8498312a6b3cbd158bf0c93abdcf29e6e4f55081';
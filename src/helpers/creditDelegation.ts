@@ -0,0 +1,87 @@
+/**
+ * Credit Delegation Helper
+ * Reconciles delegated borrow allowances against borrows made on behalf of delegators
+ */
+
+import type { handlerContext } from '../../generated';
+import { toDecimal } from './math';
+
+/**
+ * Records a DelegatedBorrow edge for a Borrow where `delegatee` borrowed on
+ * behalf of `delegator`, and consumes `amount` of the delegated allowance for
+ * the borrowed rate mode (1 = stable, 2 = variable). Debt tokens emit
+ * BorrowAllowanceDelegated with the reduced allowance during the borrow; when
+ * that event was already seen in this transaction the allowance is taken as-is
+ * instead of being decremented twice.
+ */
+export async function recordDelegatedBorrow(
+  context: handlerContext,
+  params: {
+    id: string;
+    txHash: string;
+    poolId: string;
+    reserveId: string;
+    asset: string;
+    delegator: string;
+    delegatee: string;
+    borrowRateMode: number;
+    amount: bigint;
+    decimals: number;
+    assetPriceUSD: number;
+    timestamp: number;
+  }
+): Promise<void> {
+  const mode = params.borrowRateMode === 1 ? 'stable' : 'variable';
+  const allowanceId = `${params.delegator}-${params.delegatee}-${params.asset}-${mode}`;
+  const allowance = await context.BorrowAllowance.get(allowanceId);
+
+  const alreadyReduced = allowance?.lastUpdateTxHash === params.txHash;
+  const current = allowance?.amount ?? 0n;
+  const allowanceBefore = alreadyReduced ? current + params.amount : current;
+  const allowanceAfter = alreadyReduced
+    ? current
+    : current > params.amount
+      ? current - params.amount
+      : 0n;
+
+  if (allowance && !alreadyReduced) {
+    context.BorrowAllowance.set({
+      ...allowance,
+      amount: allowanceAfter,
+      lastUpdate: params.timestamp,
+      lastUpdateTxHash: params.txHash,
+    });
+
+    const delegatedId = `${mode}${params.delegator}${params.delegatee}${params.asset}`;
+    if (mode === 'stable') {
+      const delegated = await context.StableTokenDelegatedAllowance.get(delegatedId);
+      if (delegated) {
+        context.StableTokenDelegatedAllowance.set({ ...delegated, amountAllowed: allowanceAfter });
+      }
+    } else {
+      const delegated = await context.VariableTokenDelegatedAllowance.get(delegatedId);
+      if (delegated) {
+        context.VariableTokenDelegatedAllowance.set({
+          ...delegated,
+          amountAllowed: allowanceAfter,
+        });
+      }
+    }
+  }
+
+  context.DelegatedBorrow.set({
+    id: params.id,
+    txHash: params.txHash,
+    pool_id: params.poolId,
+    reserve_id: params.reserveId,
+    delegator_id: params.delegator,
+    delegatee_id: params.delegatee,
+    borrowAllowance_id: allowanceId,
+    borrowRateMode: params.borrowRateMode,
+    amount: params.amount,
+    amountUsd: toDecimal(params.amount, params.decimals) * params.assetPriceUSD,
+    allowanceBefore,
+    allowanceAfter,
+    timestamp: params.timestamp,
+  });
+}
@@ -0,0 +1,88 @@
+/**
+ * DUST Holders Helper
+ * Per-holder DUST balances and the holder distribution histogram
+ */
+
+import type { DustBalance, handlerContext } from '../../generated';
+import { ZERO_ADDRESS } from './constants';
+import { bucketBounds, bucketIndexFor } from './leaderboard';
+import { toDecimal } from './math';
+
+const DUST_DECIMALS = 18;
+const NO_BUCKET = -1;
+
+async function addToDistribution(
+  context: handlerContext,
+  index: number,
+  countDelta: number,
+  balanceDelta: bigint,
+  timestamp: number
+) {
+  const id = index.toString();
+  const existing = await context.DustHolderDistribution.get(id);
+  const [lower, upper] = bucketBounds(index);
+  context.DustHolderDistribution.set({
+    id,
+    index,
+    lower,
+    upper,
+    holderCount: (existing?.holderCount ?? 0) + countDelta,
+    totalBalance: (existing?.totalBalance ?? 0n) + balanceDelta,
+    updatedAt: timestamp,
+  });
+}
+
+/**
+ * Moves `delta` into (or, when negative, out of) a holder's DustBalance and
+ * its distribution bucket. Returns the change in holder count (-1, 0 or 1).
+ */
+async function applyBalanceDelta(
+  context: handlerContext,
+  holder: string,
+  delta: bigint,
+  timestamp: number
+): Promise<number> {
+  const existing = await context.DustBalance.get(holder);
+  const base: DustBalance = existing ?? {
+    id: holder,
+    balance: 0n,
+    bucketIndex: NO_BUCKET,
+    firstReceivedAt: timestamp,
+    updatedAt: timestamp,
+  };
+  const next = base.balance + delta;
+  const balance = next > 0n ? next : 0n;
+  const bucketIndex = balance > 0n ? bucketIndexFor(toDecimal(balance, DUST_DECIMALS)) : NO_BUCKET;
+
+  if (base.bucketIndex !== NO_BUCKET) {
+    await addToDistribution(context, base.bucketIndex, -1, -base.balance, timestamp);
+  }
+  if (bucketIndex !== NO_BUCKET) {
+    await addToDistribution(context, bucketIndex, 1, balance, timestamp);
+  }
+
+  context.DustBalance.set({ ...base, balance, bucketIndex, updatedAt: timestamp });
+  return (balance > 0n ? 1 : 0) - (base.balance > 0n ? 1 : 0);
+}
+
+/**
+ * Applies a DUST transfer to both holders' balances; mints and burns only
+ * touch the non-zero side. Returns the change in holder count.
+ */
+export async function recordDustBalanceTransfer(
+  context: handlerContext,
+  from: string,
+  to: string,
+  value: bigint,
+  timestamp: number
+): Promise<number> {
+  if (value === 0n) return 0;
+  let holderDelta = 0;
+  if (from !== ZERO_ADDRESS) {
+    holderDelta += await applyBalanceDelta(context, from, -value, timestamp);
+  }
+  if (to !== ZERO_ADDRESS) {
+    holderDelta += await applyBalanceDelta(context, to, value, timestamp);
+  }
+  return holderDelta;
+}
@@ -0,0 +1,74 @@
+/**
+ * DustLock Lineage Helper
+ * Parent -> child edges and ancestry paths for veNFT merges and splits
+ */
+
+import type { DustLockAncestry, handlerContext } from '../../generated';
+
+export type DustLockLineageKind = 'merge' | 'split';
+
+function unique(values: string[]): string[] {
+  return [...new Set(values)];
+}
+
+/**
+ * Records a `parentTokenId` -> child edge per child and folds the parent's
+ * ancestry into each child. Merge targets keep their own history (and count
+ * as their own root); split outputs are new tokens whose roots are the
+ * parent's.
+ */
+export async function recordDustLockLineage(
+  context: handlerContext,
+  params: {
+    kind: DustLockLineageKind;
+    parentTokenId: string;
+    parentAmount: bigint;
+    children: Array<{ tokenId: string; amount: bigint }>;
+    txHash: string;
+    logIndex: number;
+    timestamp: number;
+    blockNumber: bigint;
+  }
+): Promise<void> {
+  const { parentTokenId, timestamp } = params;
+  const [parentAncestry, parentEditions] = await Promise.all([
+    context.DustLockAncestry.get(parentTokenId),
+    context.SpecialEditionTokenState.get(parentTokenId),
+  ]);
+  const parentRoots = parentAncestry?.rootTokenIds ?? [parentTokenId];
+  const parentAncestors = parentAncestry?.ancestorTokenIds ?? [];
+  const parentGeneration = parentAncestry?.generation ?? 0;
+
+  for (const child of params.children) {
+    context.DustLockLineage.set({
+      id: `${params.txHash}-${params.logIndex}-${child.tokenId}`,
+      kind: params.kind,
+      parentTokenId,
+      childTokenId: child.tokenId,
+      parentAmount: params.parentAmount,
+      childAmount: child.amount,
+      parentSpecialEditionIds: parentEditions?.editionIds ?? [],
+      txHash: params.txHash,
+      timestamp,
+      blockNumber: params.blockNumber,
+    });
+
+    const existing = await context.DustLockAncestry.get(child.tokenId);
+    const base: DustLockAncestry = existing ?? {
+      id: child.tokenId,
+      parentTokenIds: [],
+      ancestorTokenIds: [],
+      rootTokenIds: params.kind === 'merge' ? [child.tokenId] : [],
+      generation: 0,
+      updatedAt: timestamp,
+    };
+    context.DustLockAncestry.set({
+      ...base,
+      parentTokenIds: unique([...base.parentTokenIds, parentTokenId]),
+      ancestorTokenIds: unique([...base.ancestorTokenIds, ...parentAncestors, parentTokenId]),
+      rootTokenIds: unique([...base.rootTokenIds, ...parentRoots]),
+      generation: Math.max(base.generation, parentGeneration + 1),
+      updatedAt: timestamp,
+    });
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * DUST Supply Helper
+ * Hourly and daily total / circulating DUST supply snapshots
+ */
+
+import type { handlerContext } from '../../generated';
+import {
+  BALANCER_AUTORANGE_V3_POOL_ADDRESS,
+  DUST_LOCK_ADDRESS,
+  DUST_SUPPLY_EXCLUDED_ADDRESSES,
+  DUST_TOKEN_ADDRESS,
+  SECONDS_PER_DAY,
+  SECONDS_PER_HOUR,
+  TREASURY_ADDRESSES,
+  normalizeAddress,
+} from './constants';
+
+const PERIODS = [
+  { period: 'hour', seconds: SECONDS_PER_HOUR },
+  { period: 'day', seconds: SECONDS_PER_DAY },
+];
+
+/**
+ * Sums the DustBalance of `addresses` not yet in `counted`, marking them
+ * counted so an address listed in several categories is subtracted once.
+ */
+async function sumBalances(
+  context: handlerContext,
+  addresses: string[],
+  counted: Set<string>
+): Promise<bigint> {
+  let total = 0n;
+  for (const address of addresses.map(normalizeAddress)) {
+    if (counted.has(address)) continue;
+    counted.add(address);
+    total += (await context.DustBalance.get(address))?.balance ?? 0n;
+  }
+  return total;
+}
+
+/**
+ * DUST held by tracked LP pools: the pool's tracked DUST balance, which is
+ * current at the Transfer (a V2 pair's Sync and reserves only follow it). The
+ * Balancer pool's tokens sit in the vault, so its DUST-side reserve is used.
+ * Pools already in `counted` are skipped.
+ */
+async function getLpHeldDust(context: handlerContext, counted: Set<string>): Promise<bigint> {
+  const dust = normalizeAddress(DUST_TOKEN_ADDRESS);
+  const registry = await context.LPPoolRegistry.get('global');
+  let total = 0n;
+  for (const pool of registry?.poolIds ?? []) {
+    if (counted.has(normalizeAddress(pool))) continue;
+    const config = await context.LPPoolConfig.get(pool);
+    if (!config) continue;
+    const isToken0 = normalizeAddress(config.token0) === dust;
+    if (!isToken0 && normalizeAddress(config.token1) !== dust) continue;
+    counted.add(normalizeAddress(pool));
+    if (normalizeAddress(pool) === normalizeAddress(BALANCER_AUTORANGE_V3_POOL_ADDRESS)) {
+      const reserves = await context.LPPoolV2State.get(pool);
+      total += (isToken0 ? reserves?.reserve0 : reserves?.reserve1) ?? 0n;
+    } else {
+      total += (await context.DustBalance.get(pool))?.balance ?? 0n;
+    }
+  }
+  return total;
+}
+
+/**
+ * Rewrites the current hour and day DustSupplySnapshot from `totalSupply` and
+ * the DustBalance of every non-circulating holder. Each address is counted in
+ * the first of DustLock, treasury, excluded and LP that lists it.
+ */
+export async function recordDustSupplySnapshot(
+  context: handlerContext,
+  totalSupply: bigint,
+  timestamp: number
+): Promise<void> {
+  const counted = new Set<string>();
+  const lockedInDustLock = await sumBalances(context, [DUST_LOCK_ADDRESS], counted);
+  const treasuryHeld = await sumBalances(context, TREASURY_ADDRESSES, counted);
+  const excludedHeld = await sumBalances(context, DUST_SUPPLY_EXCLUDED_ADDRESSES, counted);
+  const lpHeld = await getLpHeldDust(context, counted);
+  const circulating = totalSupply - lockedInDustLock - treasuryHeld - excludedHeld - lpHeld;
+
+  for (const { period, seconds } of PERIODS) {
+    const periodStart = Math.floor(timestamp / seconds) * seconds;
+    context.DustSupplySnapshot.set({
+      id: `${period}-${periodStart}`,
+      period,
+      periodStart,
+      totalSupply,
+      lockedInDustLock,
+      treasuryHeld,
+      excludedHeld,
+      lpHeld,
+      circulatingSupply: circulating > 0n ? circulating : 0n,
+      updatedAt: timestamp,
+    });
+  }
+}
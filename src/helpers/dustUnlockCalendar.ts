@@ -0,0 +1,49 @@
+/**
+ * DUST Unlock Calendar Helper
+ * Locked DUST and token counts of non-permanent veNFTs bucketed by end week
+ */
+
+import type { handlerContext } from '../../generated';
+import { SECONDS_PER_WEEK } from './constants';
+import type { VeDustLockShape } from './veDustSupply';
+
+function isScheduledUnlock(lock: VeDustLockShape): boolean {
+  return !lock.isPermanent && lock.lockedAmount > 0n && lock.end > 0;
+}
+
+async function addToUnlockWeek(
+  context: handlerContext,
+  end: number,
+  amountDelta: bigint,
+  countDelta: number,
+  timestamp: number
+) {
+  const weekStart = Math.floor(end / SECONDS_PER_WEEK) * SECONDS_PER_WEEK;
+  const id = weekStart.toString();
+  const existing = await context.DustUnlockWeek.get(id);
+  context.DustUnlockWeek.set({
+    id,
+    weekStart,
+    lockedAmount: (existing?.lockedAmount ?? 0n) + amountDelta,
+    tokenCount: (existing?.tokenCount ?? 0) + countDelta,
+    updatedAt: timestamp,
+  });
+}
+
+/**
+ * Moves one veNFT from the unlock week of `previous` to that of `next`.
+ * Expired but not yet withdrawn locks stay in their (past) week.
+ */
+export async function updateDustUnlockCalendar(
+  context: handlerContext,
+  previous: VeDustLockShape,
+  next: VeDustLockShape,
+  timestamp: number
+): Promise<void> {
+  if (isScheduledUnlock(previous)) {
+    await addToUnlockWeek(context, previous.end, -previous.lockedAmount, -1, timestamp);
+  }
+  if (isScheduledUnlock(next)) {
+    await addToUnlockWeek(context, next.end, next.lockedAmount, 1, timestamp);
+  }
+}
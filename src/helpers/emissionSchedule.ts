@@ -0,0 +1,154 @@
+/**
+ * Emission Schedule Helper
+ * Remaining budget, emitted totals and expiry flags of incentive campaigns
+ */
+
+import type { EmissionSchedule, handlerContext, RewardApr } from '../../generated';
+import { EMISSION_EXPIRY_WARNING_SECONDS } from './constants';
+
+async function getOrInitEmissionSchedule(
+  context: handlerContext,
+  apr: Pick<RewardApr, 'id' | 'rewardsController' | 'asset' | 'reward'>,
+  timestamp: number
+): Promise<EmissionSchedule> {
+  const existing = await context.EmissionSchedule.get(apr.id);
+  return (
+    existing ?? {
+      id: apr.id,
+      rewardsController: apr.rewardsController,
+      asset: apr.asset,
+      reward: apr.reward,
+      reserve_id: undefined,
+      side: 'unknown',
+      emissionsPerSecond: 0n,
+      distributionEnd: 0,
+      periodStart: timestamp,
+      closedEmitted: 0n,
+      emittedToDate: 0n,
+      remainingBudget: 0n,
+      secondsUntilEnd: 0,
+      status: 'stopped',
+      endsSoon: false,
+      endedWithHolders: false,
+      incentivizedUsd: 0,
+      updatedAt: timestamp,
+    }
+  );
+}
+
+/**
+ * Whether the campaign's incentivized asset still has holders, from the
+ * reserve's raw supply or debt so an unpriced reserve still counts.
+ */
+async function hasHolders(context: handlerContext, apr: RewardApr): Promise<boolean> {
+  if (!apr.reserve_id) return false;
+  const reserve = await context.Reserve.get(apr.reserve_id);
+  if (!reserve) return false;
+  if (apr.side === 'supply') return reserve.totalATokenSupply > 0n;
+  if (apr.side === 'borrow') return reserve.totalScaledVariableDebt > 0n;
+  if (apr.side === 'stableBorrow') return reserve.totalPrincipalStableDebt > 0n;
+  return false;
+}
+
+async function addRewardTokenEmitted(
+  context: handlerContext,
+  reward: string,
+  delta: { historical: bigint; current: bigint },
+  timestamp: number
+): Promise<void> {
+  const token = await context.EmissionRewardToken.get(reward);
+  const historicalEmitted = (token?.historicalEmitted ?? 0n) + delta.historical;
+  const currentEmitted = (token?.currentEmitted ?? 0n) + delta.current;
+  context.EmissionRewardToken.set({
+    id: reward,
+    historicalEmitted,
+    currentEmitted,
+    totalEmitted: historicalEmitted + currentEmitted,
+    updatedAt: timestamp,
+  });
+}
+
+/**
+ * Books the emission of a config period that AssetConfigUpdated just closed on
+ * the campaign and on its reward token's running total, replacing the running
+ * period's last projection on the token.
+ */
+export async function recordClosedEmissionPeriod(
+  context: handlerContext,
+  campaign: Pick<RewardApr, 'id' | 'rewardsController' | 'asset' | 'reward'>,
+  emittedAmount: bigint,
+  timestamp: number
+): Promise<void> {
+  const schedule = await getOrInitEmissionSchedule(context, campaign, timestamp);
+  const closedEmitted = schedule.closedEmitted + emittedAmount;
+  context.EmissionSchedule.set({
+    ...schedule,
+    closedEmitted,
+    emittedToDate: closedEmitted,
+    updatedAt: timestamp,
+  });
+
+  await addRewardTokenEmitted(
+    context,
+    campaign.reward,
+    {
+      historical: emittedAmount,
+      current: -(schedule.emittedToDate - schedule.closedEmitted),
+    },
+    timestamp
+  );
+}
+
+/**
+ * Re-evaluates a campaign's budget and expiry flags from its freshly written
+ * RewardApr and the current config's start.
+ */
+export async function refreshEmissionSchedule(
+  context: handlerContext,
+  apr: RewardApr,
+  timestamp: number
+): Promise<void> {
+  const [schedule, config] = await Promise.all([
+    getOrInitEmissionSchedule(context, apr, timestamp),
+    context.RewardAssetConfig.get(apr.id),
+  ]);
+  const periodStart = config?.updatedAt ?? schedule.periodStart;
+  const emittingUntil = Math.min(timestamp, apr.distributionEnd);
+  const currentEmitted =
+    emittingUntil > periodStart ? apr.emissionsPerSecond * BigInt(emittingUntil - periodStart) : 0n;
+  const secondsUntilEnd = Math.max(apr.distributionEnd - timestamp, 0);
+
+  let status = 'active';
+  if (apr.emissionsPerSecond === 0n) status = 'stopped';
+  else if (secondsUntilEnd === 0) status = 'ended';
+  else if (secondsUntilEnd <= EMISSION_EXPIRY_WARNING_SECONDS) status = 'expiring';
+
+  const endedWithHolders = status === 'ended' && (await hasHolders(context, apr));
+
+  const previousCurrentEmitted = schedule.emittedToDate - schedule.closedEmitted;
+  context.EmissionSchedule.set({
+    ...schedule,
+    reserve_id: apr.reserve_id,
+    side: apr.side,
+    emissionsPerSecond: apr.emissionsPerSecond,
+    distributionEnd: apr.distributionEnd,
+    periodStart,
+    emittedToDate: schedule.closedEmitted + currentEmitted,
+    remainingBudget: apr.emissionsPerSecond * BigInt(secondsUntilEnd),
+    secondsUntilEnd,
+    status,
+    endsSoon: status === 'expiring',
+    endedWithHolders,
+    incentivizedUsd: apr.incentivizedUsd,
+    updatedAt: timestamp,
+  });
+
+  if (currentEmitted !== previousCurrentEmitted) {
+    await addRewardTokenEmitted(
+      context,
+      apr.reward,
+      { historical: 0n, current: currentEmitted - previousCurrentEmitted },
+      timestamp
+    );
+  }
+}
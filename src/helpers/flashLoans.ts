@@ -0,0 +1,119 @@
+/**
+ * Flash Loan Analytics Helper
+ * Per-initiator, per-target and daily per-reserve flash loan rollups
+ */
+
+import type { handlerContext } from '../../generated';
+import { SECONDS_PER_DAY } from './constants';
+import { toDecimal } from './math';
+
+export type FlashLoanAnalytics = {
+  poolId: string;
+  reserveId: string;
+  initiator: string;
+  target: string;
+  amount: bigint;
+  premium: bigint;
+  lpPremium: bigint;
+  protocolPremium: bigint;
+  decimals: number;
+  assetPriceUSD: number;
+  timestamp: number;
+};
+
+type FlashLoanUsageStats = {
+  id: string;
+  flashLoanCount: number;
+  volumeUsd: number;
+  premiumUsd: number;
+  lpPremiumUsd: number;
+  protocolPremiumUsd: number;
+  firstFlashLoanAt: number;
+  lastFlashLoanAt: number;
+};
+
+function applyFlashLoanUsage(
+  stats: FlashLoanUsageStats | undefined,
+  id: string,
+  usd: { volume: number; premium: number; lpPremium: number; protocolPremium: number },
+  timestamp: number
+): FlashLoanUsageStats {
+  const base = stats ?? {
+    id,
+    flashLoanCount: 0,
+    volumeUsd: 0,
+    premiumUsd: 0,
+    lpPremiumUsd: 0,
+    protocolPremiumUsd: 0,
+    firstFlashLoanAt: timestamp,
+    lastFlashLoanAt: timestamp,
+  };
+  return {
+    ...base,
+    flashLoanCount: base.flashLoanCount + 1,
+    volumeUsd: base.volumeUsd + usd.volume,
+    premiumUsd: base.premiumUsd + usd.premium,
+    lpPremiumUsd: base.lpPremiumUsd + usd.lpPremium,
+    protocolPremiumUsd: base.protocolPremiumUsd + usd.protocolPremium,
+    lastFlashLoanAt: timestamp,
+  };
+}
+
+/**
+ * Rolls a single FlashLoan into FlashLoanInitiatorStats, FlashLoanTargetStats
+ * and FlashLoanReserveDayData.
+ */
+export async function updateFlashLoanAggregates(
+  context: handlerContext,
+  data: FlashLoanAnalytics
+): Promise<void> {
+  const usd = {
+    volume: toDecimal(data.amount, data.decimals) * data.assetPriceUSD,
+    premium: toDecimal(data.premium, data.decimals) * data.assetPriceUSD,
+    lpPremium: toDecimal(data.lpPremium, data.decimals) * data.assetPriceUSD,
+    protocolPremium: toDecimal(data.protocolPremium, data.decimals) * data.assetPriceUSD,
+  };
+
+  const initiatorStats = await context.FlashLoanInitiatorStats.get(data.initiator);
+  context.FlashLoanInitiatorStats.set(
+    applyFlashLoanUsage(initiatorStats, data.initiator, usd, data.timestamp)
+  );
+
+  const targetStats = await context.FlashLoanTargetStats.get(data.target);
+  context.FlashLoanTargetStats.set(
+    applyFlashLoanUsage(targetStats, data.target, usd, data.timestamp)
+  );
+
+  const day = Math.floor(data.timestamp / SECONDS_PER_DAY);
+  const dayId = `${data.reserveId}-${day}`;
+  const dayData = await context.FlashLoanReserveDayData.get(dayId);
+  const dayBase = dayData ?? {
+    id: dayId,
+    reserve_id: data.reserveId,
+    pool_id: data.poolId,
+    day,
+    flashLoanCount: 0,
+    volume: 0n,
+    volumeUsd: 0,
+    premium: 0n,
+    lpPremium: 0n,
+    protocolPremium: 0n,
+    premiumUsd: 0,
+    lpPremiumUsd: 0,
+    protocolPremiumUsd: 0,
+    updatedAt: data.timestamp,
+  };
+  context.FlashLoanReserveDayData.set({
+    ...dayBase,
+    flashLoanCount: dayBase.flashLoanCount + 1,
+    volume: dayBase.volume + data.amount,
+    volumeUsd: dayBase.volumeUsd + usd.volume,
+    premium: dayBase.premium + data.premium,
+    lpPremium: dayBase.lpPremium + data.lpPremium,
+    protocolPremium: dayBase.protocolPremium + data.protocolPremium,
+    premiumUsd: dayBase.premiumUsd + usd.premium,
+    lpPremiumUsd: dayBase.lpPremiumUsd + usd.lpPremium,
+    protocolPremiumUsd: dayBase.protocolPremiumUsd + usd.protocolPremium,
+    updatedAt: data.timestamp,
+  });
+}
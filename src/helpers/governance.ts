@@ -0,0 +1,71 @@
+/**
+ * Governance Audit Helper
+ * One chronological GovernanceAction feed across admin-side events
+ */
+
+import type { handlerContext } from '../../generated';
+import { normalizeAddress } from './constants';
+
+type GovernanceScalar = string | bigint | number | boolean;
+export type GovernanceValue = GovernanceScalar | Record<string, GovernanceScalar>;
+
+type GovernanceEvent = {
+  srcAddress: string;
+  logIndex: number;
+  block: { number: number; timestamp: number };
+  transaction: { hash: string; from?: string };
+};
+
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+
+function formatScalar(value: GovernanceScalar): string {
+  if (typeof value === 'string') {
+    return ADDRESS_PATTERN.test(value) ? normalizeAddress(value) : value;
+  }
+  return value.toString();
+}
+
+/**
+ * Stringifies an old/new value: addresses are lowercased and multi-field
+ * values become "key=value" pairs joined by ",".
+ */
+export function formatGovernanceValue(value: GovernanceValue | undefined): string | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value === 'object') {
+    return Object.entries(value)
+      .map(([key, entry]) => `${key}=${formatScalar(entry)}`)
+      .join(',');
+  }
+  return formatScalar(value);
+}
+
+/**
+ * Appends the admin-side event to the GovernanceAction feed
+ * (id = <txHash>-<logIndex>).
+ */
+export function recordGovernanceAction(
+  context: handlerContext,
+  event: GovernanceEvent,
+  details: {
+    contractName: string;
+    action: string;
+    target?: GovernanceScalar;
+    oldValue?: GovernanceValue;
+    newValue?: GovernanceValue;
+  }
+): void {
+  context.GovernanceAction.set({
+    id: `${event.transaction.hash}-${event.logIndex}`,
+    contract: normalizeAddress(event.srcAddress),
+    contractName: details.contractName,
+    action: details.action,
+    target: details.target === undefined ? undefined : formatScalar(details.target),
+    oldValue: formatGovernanceValue(details.oldValue),
+    newValue: formatGovernanceValue(details.newValue),
+    sender: event.transaction.from ? normalizeAddress(event.transaction.from) : undefined,
+    txHash: event.transaction.hash,
+    blockNumber: BigInt(event.block.number),
+    logIndex: event.logIndex,
+    timestamp: event.block.timestamp,
+  });
+}
@@ -0,0 +1,212 @@
+/**
+ * Incentive APR Helper
+ * Supplier and borrower APR of RewardsController emissions per reserve
+ */
+
+import type { handlerContext, RewardApr } from '../../generated';
+import { getObservedTokenPriceUSD, resolveTokenDecimals } from '../handlers/shared';
+import { SECONDS_PER_DAY, SECONDS_PER_HOUR, ZERO_ADDRESS } from './constants';
+import { refreshEmissionSchedule } from './emissionSchedule';
+import { toDecimal } from './math';
+
+const SECONDS_PER_YEAR = 365 * SECONDS_PER_DAY;
+
+export type RewardAprSide = 'supply' | 'borrow' | 'stableBorrow' | 'unknown';
+
+async function resolveIncentivizedReserve(
+  context: handlerContext,
+  asset: string
+): Promise<{ reserveId?: string; side: RewardAprSide }> {
+  const [supplied, borrowed, stableBorrowed] = await Promise.all([
+    context.Reserve.getWhere.aToken_id.eq(asset),
+    context.Reserve.getWhere.vToken_id.eq(asset),
+    context.Reserve.getWhere.sToken_id.eq(asset),
+  ]);
+  if (supplied.length > 0) return { reserveId: supplied[0].id, side: 'supply' };
+  if (borrowed.length > 0) return { reserveId: borrowed[0].id, side: 'borrow' };
+  if (stableBorrowed.length > 0) {
+    return { reserveId: stableBorrowed[0].id, side: 'stableBorrow' };
+  }
+  return { reserveId: undefined, side: 'unknown' };
+}
+
+/**
+ * USD price of an emission's reward: the last good read of its feed oracle
+ * when the controller set one and that read priced the reward token, else the
+ * reward token's own observed price.
+ */
+async function getRewardPriceUSD(
+  context: handlerContext,
+  current: RewardApr
+): Promise<number | undefined> {
+  const feed = current.rewardFeedOracle;
+  if (feed !== current.reward && feed !== ZERO_ADDRESS) {
+    const read = await context.FeedOraclePrice.get(feed);
+    if (read?.asset === current.reward) return read.lastPriceUsd;
+  }
+  return getObservedTokenPriceUSD(context, current.reward);
+}
+
+async function getIncentivizedUsd(context: handlerContext, current: RewardApr): Promise<number> {
+  if (!current.reserve_id) return 0;
+  if (current.side === 'stableBorrow') {
+    const reserve = await context.Reserve.get(current.reserve_id);
+    return reserve
+      ? toDecimal(reserve.totalPrincipalStableDebt, reserve.decimals) * reserve.priceInUsd
+      : 0;
+  }
+  const aggregate = await context.ReserveAggregate.get(current.reserve_id);
+  if (current.side === 'supply') return aggregate?.suppliesUsd ?? 0;
+  if (current.side === 'borrow') return aggregate?.borrowsUsd ?? 0;
+  return 0;
+}
+
+async function writeRewardApr(
+  context: handlerContext,
+  current: RewardApr,
+  timestamp: number
+): Promise<void> {
+  const isActive = current.emissionsPerSecond > 0n && timestamp < current.distributionEnd;
+  const [incentivizedUsd, decimals, observedPriceUsd] = await Promise.all([
+    getIncentivizedUsd(context, current),
+    resolveTokenDecimals(context, current.reward),
+    getRewardPriceUSD(context, current),
+  ]);
+  // Without a real price the APR is unknown; report 0 rather than a default.
+  const hasRewardPrice = observedPriceUsd !== undefined;
+  const rewardPriceUsd = observedPriceUsd ?? 0;
+  const yearlyEmissionsUsd = isActive
+    ? toDecimal(current.emissionsPerSecond * BigInt(SECONDS_PER_YEAR), decimals) * rewardPriceUsd
+    : 0;
+  const apr = incentivizedUsd > 0 ? yearlyEmissionsUsd / incentivizedUsd : 0;
+
+  const next: RewardApr = {
+    ...current,
+    rewardPriceUsd,
+    hasRewardPrice,
+    yearlyEmissionsUsd,
+    incentivizedUsd,
+    apr,
+    isActive,
+    updatedAt: timestamp,
+  };
+  context.RewardApr.set(next);
+  await refreshEmissionSchedule(context, next, timestamp);
+
+  const hourStart = Math.floor(timestamp / SECONDS_PER_HOUR) * SECONDS_PER_HOUR;
+  context.RewardAprSnapshot.set({
+    id: `${current.id}-${hourStart}`,
+    rewardApr_id: current.id,
+    reserve_id: current.reserve_id,
+    side: current.side,
+    hourStart,
+    rewardPriceUsd,
+    hasRewardPrice,
+    incentivizedUsd,
+    apr,
+    isActive,
+    updatedAt: timestamp,
+  });
+}
+
+/**
+ * Re-rates one RewardAssetConfig after AssetConfigUpdated, resolving which
+ * reserve and side its incentivized asset belongs to.
+ */
+export async function updateRewardApr(
+  context: handlerContext,
+  params: {
+    configId: string;
+    rewardsController: string;
+    asset: string;
+    reward: string;
+    rewardFeedOracle: string;
+    emissionsPerSecond: bigint;
+    distributionEnd: number;
+    timestamp: number;
+  }
+): Promise<void> {
+  const existing = await context.RewardApr.get(params.configId);
+  const incentivized = existing?.reserve_id
+    ? { reserveId: existing.reserve_id, side: existing.side as RewardAprSide }
+    : await resolveIncentivizedReserve(context, params.asset);
+
+  await writeRewardApr(
+    context,
+    {
+      id: params.configId,
+      rewardsController: params.rewardsController,
+      asset: params.asset,
+      reward: params.reward,
+      rewardFeedOracle: params.rewardFeedOracle,
+      reserve_id: incentivized.reserveId,
+      side: incentivized.side,
+      emissionsPerSecond: params.emissionsPerSecond,
+      distributionEnd: params.distributionEnd,
+      rewardPriceUsd: existing?.rewardPriceUsd ?? 0,
+      hasRewardPrice: existing?.hasRewardPrice ?? false,
+      yearlyEmissionsUsd: existing?.yearlyEmissionsUsd ?? 0,
+      incentivizedUsd: existing?.incentivizedUsd ?? 0,
+      apr: existing?.apr ?? 0,
+      isActive: existing?.isActive ?? false,
+      updatedAt: params.timestamp,
+    },
+    params.timestamp
+  );
+}
+
+/**
+ * Records a good PriceObserved read as its oracle's FeedOraclePrice, the price
+ * source of rewards that use the oracle as their feed.
+ */
+export function recordFeedOraclePrice(
+  context: handlerContext,
+  params: { oracle: string; asset: string; priceUsd: number; timestamp: number }
+): void {
+  context.FeedOraclePrice.set({
+    id: params.oracle,
+    oracle: params.oracle,
+    asset: params.asset,
+    lastPriceUsd: params.priceUsd,
+    lastSuccessAt: params.timestamp,
+  });
+}
+
+/**
+ * Re-rates every emission of a reward token after the controller pointed it
+ * at a new feed oracle.
+ */
+export async function setRewardAprFeedOracle(
+  context: handlerContext,
+  reward: string,
+  rewardFeedOracle: string,
+  timestamp: number
+): Promise<void> {
+  const aprs = await context.RewardApr.getWhere.reward.eq(reward);
+  for (const apr of aprs) {
+    await writeRewardApr(context, { ...apr, rewardFeedOracle }, timestamp);
+  }
+}
+
+/**
+ * Re-rates every emission on a reserve after its ReserveAggregate changed,
+ * then expires the active rates (and flags the schedules) of any reserve whose
+ * distributionEnd has passed, so an idle reserve's APR does not outlive its
+ * campaign.
+ */
+export async function refreshReserveRewardAprs(
+  context: handlerContext,
+  reserveId: string,
+  timestamp: number
+): Promise<void> {
+  const aprs = await context.RewardApr.getWhere.reserve_id.eq(reserveId);
+  for (const apr of aprs) {
+    await writeRewardApr(context, apr, timestamp);
+  }
+  const active = await context.RewardApr.getWhere.isActive.eq(true);
+  for (const apr of active) {
+    if (apr.reserve_id !== reserveId && timestamp >= apr.distributionEnd) {
+      await writeRewardApr(context, apr, timestamp);
+    }
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * Interest Rate Strategy Helper
+ * Rate curves of reserve interest rate strategies from events or gated eth_calls
+ */
+
+import type { handlerContext } from '../../generated';
+import { shouldUseEthCalls } from '../handlers/shared';
+import { ZERO_ADDRESS } from './constants';
+import { readInterestRateCurve, type InterestRateCurve } from './viem';
+
+/**
+ * Curve of `strategy` for `asset`: the stored RateDataUpdate data, else, when
+ * eth calls are enabled, an eth_call read stored the same way. V1 strategies
+ * and strategies registered after their RateDataUpdate only get the read.
+ */
+export async function resolveStrategyCurve(
+  context: handlerContext,
+  strategy: string,
+  asset: string,
+  blockNumber: bigint,
+  timestamp: number
+): Promise<InterestRateCurve | undefined> {
+  const id = `${strategy}-${asset}`;
+  const stored = await context.InterestRateStrategy.get(id);
+  if (stored || strategy === ZERO_ADDRESS || !shouldUseEthCalls()) return stored;
+  const curve = await readInterestRateCurve(strategy, asset, blockNumber, context.log);
+  if (!curve) return undefined;
+  context.InterestRateStrategy.set({ id, strategy, asset, ...curve, updatedAt: timestamp });
+  return curve;
+}
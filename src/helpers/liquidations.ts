@@ -0,0 +1,211 @@
+/**
+ * Liquidation Analytics Helper
+ * Bonus/protocol-fee split, per-liquidator, per-pair and daily rollups, and
+ * bad-debt detection
+ */
+
+import type { handlerContext } from '../../generated';
+import { getAssetPriceUSD } from '../handlers/shared';
+import { SECONDS_PER_DAY, normalizeAddress } from './constants';
+import { toDecimal } from './math';
+import { recordBadDebtUsd } from './protocolAggregation';
+
+const BPS = 10000n;
+
+export type LiquidationSplit = {
+  totalCollateral: bigint;
+  liquidationBonusAmount: bigint;
+  protocolFeeAmount: bigint;
+};
+
+/**
+ * Reconstructs the Aave V3 collateral split from the amount the liquidator
+ * received. The Pool seizes `total`, of which `total - total / bonus` is the
+ * bonus; the protocol takes `protocolFee` bps of that bonus and the event
+ * reports `total - fee`.
+ */
+export function splitLiquidatedCollateral(
+  liquidatorCollateral: bigint,
+  liquidationBonus: bigint,
+  protocolFeeBps: bigint
+): LiquidationSplit {
+  if (liquidationBonus <= BPS || liquidatorCollateral === 0n) {
+    return {
+      totalCollateral: liquidatorCollateral,
+      liquidationBonusAmount: 0n,
+      protocolFeeAmount: 0n,
+    };
+  }
+
+  const bonusShare = liquidationBonus - BPS;
+  const totalCollateral =
+    (liquidatorCollateral * liquidationBonus * BPS) /
+    (liquidationBonus * BPS - bonusShare * protocolFeeBps);
+  const protocolFeeAmount = totalCollateral - liquidatorCollateral;
+  const bonusCollateral = totalCollateral - (totalCollateral * BPS) / liquidationBonus;
+  const liquidationBonusAmount =
+    bonusCollateral > protocolFeeAmount ? bonusCollateral - protocolFeeAmount : 0n;
+
+  return { totalCollateral, liquidationBonusAmount, protocolFeeAmount };
+}
+
+export type LiquidationAnalytics = {
+  poolId: string;
+  liquidator: string;
+  collateralReserveId: string;
+  principalReserveId: string;
+  collateralAmount: bigint;
+  principalAmount: bigint;
+  collateralSeizedUSD: number;
+  principalAmountUSD: number;
+  liquidationBonusUSD: number;
+  protocolFeeUSD: number;
+  liquidatorProfitUSD: number;
+  timestamp: number;
+};
+
+/**
+ * Rolls a single LiquidationCall into LiquidatorStats, LiquidationPairStats
+ * and LiquidationDayData.
+ */
+export async function updateLiquidationAggregates(
+  context: handlerContext,
+  data: LiquidationAnalytics
+): Promise<void> {
+  const liquidatorStats = await context.LiquidatorStats.get(data.liquidator);
+  const liquidatorBase = liquidatorStats ?? {
+    id: data.liquidator,
+    liquidationCount: 0,
+    collateralSeizedUsd: 0,
+    debtCoveredUsd: 0,
+    liquidationBonusUsd: 0,
+    protocolFeeUsd: 0,
+    profitUsd: 0,
+    firstLiquidationAt: data.timestamp,
+    lastLiquidationAt: data.timestamp,
+  };
+  context.LiquidatorStats.set({
+    ...liquidatorBase,
+    liquidationCount: liquidatorBase.liquidationCount + 1,
+    collateralSeizedUsd: liquidatorBase.collateralSeizedUsd + data.collateralSeizedUSD,
+    debtCoveredUsd: liquidatorBase.debtCoveredUsd + data.principalAmountUSD,
+    liquidationBonusUsd: liquidatorBase.liquidationBonusUsd + data.liquidationBonusUSD,
+    protocolFeeUsd: liquidatorBase.protocolFeeUsd + data.protocolFeeUSD,
+    profitUsd: liquidatorBase.profitUsd + data.liquidatorProfitUSD,
+    lastLiquidationAt: data.timestamp,
+  });
+
+  const pairId = `${data.collateralReserveId}:${data.principalReserveId}`;
+  const pairStats = await context.LiquidationPairStats.get(pairId);
+  const pairBase = pairStats ?? {
+    id: pairId,
+    pool_id: data.poolId,
+    collateralReserve_id: data.collateralReserveId,
+    principalReserve_id: data.principalReserveId,
+    liquidationCount: 0,
+    collateralAmount: 0n,
+    principalAmount: 0n,
+    collateralSeizedUsd: 0,
+    debtCoveredUsd: 0,
+    liquidationBonusUsd: 0,
+    protocolFeeUsd: 0,
+    lastLiquidationAt: data.timestamp,
+  };
+  context.LiquidationPairStats.set({
+    ...pairBase,
+    liquidationCount: pairBase.liquidationCount + 1,
+    collateralAmount: pairBase.collateralAmount + data.collateralAmount,
+    principalAmount: pairBase.principalAmount + data.principalAmount,
+    collateralSeizedUsd: pairBase.collateralSeizedUsd + data.collateralSeizedUSD,
+    debtCoveredUsd: pairBase.debtCoveredUsd + data.principalAmountUSD,
+    liquidationBonusUsd: pairBase.liquidationBonusUsd + data.liquidationBonusUSD,
+    protocolFeeUsd: pairBase.protocolFeeUsd + data.protocolFeeUSD,
+    lastLiquidationAt: data.timestamp,
+  });
+
+  const day = Math.floor(data.timestamp / SECONDS_PER_DAY);
+  const dayData = await context.LiquidationDayData.get(day.toString());
+  const dayBase = dayData ?? {
+    id: day.toString(),
+    day,
+    liquidationCount: 0,
+    collateralSeizedUsd: 0,
+    debtCoveredUsd: 0,
+    liquidationBonusUsd: 0,
+    protocolFeeUsd: 0,
+    liquidatorProfitUsd: 0,
+    updatedAt: data.timestamp,
+  };
+  context.LiquidationDayData.set({
+    ...dayBase,
+    liquidationCount: dayBase.liquidationCount + 1,
+    collateralSeizedUsd: dayBase.collateralSeizedUsd + data.collateralSeizedUSD,
+    debtCoveredUsd: dayBase.debtCoveredUsd + data.principalAmountUSD,
+    liquidationBonusUsd: dayBase.liquidationBonusUsd + data.liquidationBonusUSD,
+    protocolFeeUsd: dayBase.protocolFeeUsd + data.protocolFeeUSD,
+    liquidatorProfitUsd: dayBase.liquidatorProfitUsd + data.liquidatorProfitUSD,
+    updatedAt: data.timestamp,
+  });
+}
+
+/**
+ * Runs after a LiquidationCall: when the borrower has no collateral left in the
+ * pool but still owes debt, records a BadDebtEvent and adds the debt (USD) to
+ * the per-reserve and per-pool bad-debt totals.
+ */
+export async function detectBadDebt(
+  context: handlerContext,
+  params: {
+    poolId: string;
+    userId: string;
+    liquidationId: string;
+    txHash: string;
+    timestamp: number;
+  }
+): Promise<void> {
+  const userId = normalizeAddress(params.userId);
+  const reserveList = await context.UserReserveList.get(userId);
+  if (!reserveList) return;
+
+  let hasCollateral = false;
+  const debts: Array<{ reserveId: string; debtUsd: number }> = [];
+
+  for (const reserveId of reserveList.reserveIds) {
+    const userReserve = await context.UserReserve.get(`${userId}-${reserveId}`);
+    if (!userReserve || userReserve.pool_id !== params.poolId) continue;
+
+    if (userReserve.usageAsCollateralEnabledOnUser && userReserve.currentATokenBalance > 0n) {
+      hasCollateral = true;
+      break;
+    }
+
+    if (userReserve.currentTotalDebt > 0n) {
+      const reserve = await context.Reserve.get(reserveId);
+      if (!reserve) continue;
+      const priceUsd = await getAssetPriceUSD(context, reserve.underlyingAsset, params.timestamp);
+      debts.push({
+        reserveId,
+        debtUsd: toDecimal(userReserve.currentTotalDebt, reserve.decimals) * priceUsd,
+      });
+    }
+  }
+
+  if (hasCollateral || debts.length === 0) return;
+
+  let totalDebtUsd = 0;
+  for (const debt of debts) {
+    totalDebtUsd += debt.debtUsd;
+    await recordBadDebtUsd(context, debt.reserveId, params.poolId, debt.debtUsd, params.timestamp);
+  }
+
+  context.BadDebtEvent.set({
+    id: params.liquidationId,
+    txHash: params.txHash,
+    pool_id: params.poolId,
+    user_id: userId,
+    liquidation_id: params.liquidationId,
+    reserveIds: debts.map(debt => debt.reserveId),
+    totalDebtUsd,
+    timestamp: params.timestamp,
+  });
+}
@@ -7,6 +7,7 @@
 const RAY = 10n ** 27n;
 const HALF_RAY = RAY / 2n;
 const WAD_RAY_RATIO = 10n ** 9n;
+const BPS_RAY_RATIO = 10n ** 23n;
 const SECONDS_PER_YEAR = 31556952n;
 
 /**
@@ -35,6 +36,13 @@ export function wadToRay(a: bigint): bigint {
   return a * WAD_RAY_RATIO;
 }
 
+/**
+ * Basis points (1e4 = 100%) to ray (1e27 = 100%)
+ */
+export function bpsToRay(a: bigint): bigint {
+  return a * BPS_RAY_RATIO;
+}
+
 export function calculateLinearInterest(
   rate: bigint,
   lastUpdatedTimestamp: bigint,
@@ -99,6 +107,17 @@ export function calculateUtilizationRate(totalBorrows: bigint, availableLiquidit
   return Number((totalBorrows * 10000n) / total) / 10000;
 }
 
+/**
+ * Convert an annual ray rate (liquidityRate / variableBorrowRate) to APY
+ * apy = (1 + rate / SECONDS_PER_YEAR) ^ SECONDS_PER_YEAR - 1
+ */
+export function rayRateToApy(rate: bigint): number {
+  if (rate <= 0n) return 0;
+  const seconds = Number(SECONDS_PER_YEAR);
+  const ratePerSecond = Number(rate) / Number(RAY) / seconds;
+  return Math.expm1(seconds * Math.log1p(ratePerSecond));
+}
+
 /**
  * Convert BigInt with decimals to number
  */
@@ -0,0 +1,158 @@
+/**
+ * Oracle Health Helper
+ * Failed reads, staleness, price jumps and DEX deviation per observed asset
+ */
+
+import type { handlerContext, OracleHealth } from '../../generated';
+import { normalizeAddress } from './constants';
+
+const PRICE_SCALE = 1e8;
+
+function emptyOracleHealth(asset: string, timestamp: number): OracleHealth {
+  return {
+    id: asset,
+    asset,
+    oracle: undefined,
+    observationCount: 0,
+    failedReadCount: 0,
+    consecutiveFailures: 0,
+    firstObservationAt: undefined,
+    lastObservationAt: undefined,
+    lastSuccessAt: undefined,
+    lastFailureAt: undefined,
+    lastPriceUsd: 0,
+    secondsSinceLastSuccess: 0,
+    maxStalenessSeconds: 0,
+    lastPriceJump: 0,
+    maxPriceJump: 0,
+    maxPriceJumpAt: undefined,
+    dexPool: undefined,
+    dexPriceUsd: undefined,
+    dexPriceUpdatedAt: undefined,
+    dexDeviation: undefined,
+    maxDexDeviation: 0,
+    updatedAt: timestamp,
+  };
+}
+
+/**
+ * First OracleHealth row of an asset, picking up a DEX price recorded before
+ * the asset's first oracle observation.
+ */
+async function newOracleHealth(
+  context: handlerContext,
+  asset: string,
+  timestamp: number
+): Promise<OracleHealth> {
+  const dex = await context.DexPrice.get(asset);
+  return {
+    ...emptyOracleHealth(asset, timestamp),
+    dexPool: dex?.pool,
+    dexPriceUsd: dex?.priceUsd,
+    dexPriceUpdatedAt: dex?.updatedAt,
+  };
+}
+
+function withDexDeviation(health: OracleHealth): OracleHealth {
+  if (!health.dexPriceUsd || health.lastPriceUsd <= 0) return health;
+  const deviation = (health.lastPriceUsd - health.dexPriceUsd) / health.dexPriceUsd;
+  return {
+    ...health,
+    dexDeviation: deviation,
+    maxDexDeviation: Math.max(health.maxDexDeviation, Math.abs(deviation)),
+  };
+}
+
+/**
+ * Folds one PriceObserved read into the asset's OracleHealth. Failed reads
+ * (`ok = false`) or zero prices leave the last good price untouched and only
+ * extend the staleness window; good reads record the relative jump from the
+ * previous good price.
+ */
+export async function recordOracleObservation(
+  context: handlerContext,
+  params: { asset: string; oracle: string; priceUsd: number; ok: boolean; timestamp: number }
+): Promise<void> {
+  const asset = normalizeAddress(params.asset);
+  const { timestamp } = params;
+  const existing = await context.OracleHealth.get(asset);
+  const base = existing ?? (await newOracleHealth(context, asset, timestamp));
+  const firstObservationAt = base.firstObservationAt ?? timestamp;
+  const staleSince = base.lastSuccessAt ?? firstObservationAt;
+  const staleness = timestamp - staleSince;
+
+  const observed: OracleHealth = {
+    ...base,
+    oracle: normalizeAddress(params.oracle),
+    observationCount: base.observationCount + 1,
+    firstObservationAt,
+    lastObservationAt: timestamp,
+    maxStalenessSeconds: Math.max(base.maxStalenessSeconds, staleness),
+    updatedAt: timestamp,
+  };
+
+  if (!params.ok || params.priceUsd <= 0) {
+    context.OracleHealth.set({
+      ...observed,
+      failedReadCount: base.failedReadCount + 1,
+      consecutiveFailures: base.consecutiveFailures + 1,
+      lastFailureAt: timestamp,
+      secondsSinceLastSuccess: staleness,
+    });
+    return;
+  }
+
+  const jump =
+    base.lastPriceUsd > 0 ? Math.abs(params.priceUsd - base.lastPriceUsd) / base.lastPriceUsd : 0;
+  const isLargestJump = jump > base.maxPriceJump;
+
+  context.OracleHealth.set(
+    withDexDeviation({
+      ...observed,
+      consecutiveFailures: 0,
+      lastSuccessAt: timestamp,
+      lastPriceUsd: params.priceUsd,
+      secondsSinceLastSuccess: 0,
+      lastPriceJump: jump,
+      maxPriceJump: isLargestJump ? jump : base.maxPriceJump,
+      maxPriceJumpAt: isLargestJump ? timestamp : base.maxPriceJumpAt,
+    })
+  );
+}
+
+/**
+ * Records a USD price (8 decimals) implied by an LP pool's reserves or
+ * sqrtPriceX96 as the token's DexPrice and, for oracle-observed assets,
+ * refreshes the deviation from the oracle price.
+ */
+export async function recordDexDerivedPrice(
+  context: handlerContext,
+  token: string,
+  priceE8: bigint,
+  pool: string,
+  timestamp: number
+): Promise<void> {
+  if (priceE8 <= 0n) return;
+  const asset = normalizeAddress(token);
+  const dexPool = normalizeAddress(pool);
+  const dexPriceUsd = Number(priceE8) / PRICE_SCALE;
+  context.DexPrice.set({
+    id: asset,
+    token: asset,
+    pool: dexPool,
+    priceUsd: dexPriceUsd,
+    updatedAt: timestamp,
+  });
+
+  const existing = await context.OracleHealth.get(asset);
+  if (!existing) return;
+  context.OracleHealth.set(
+    withDexDeviation({
+      ...existing,
+      dexPool,
+      dexPriceUsd,
+      dexPriceUpdatedAt: timestamp,
+      updatedAt: timestamp,
+    })
+  );
+}
@@ -0,0 +1,57 @@
+/**
+ * Asset Price Candle Helper
+ * Hourly and daily OHLC candles of reserve underlying USD prices
+ */
+
+import type { handlerContext } from '../../generated';
+import { SECONDS_PER_DAY, SECONDS_PER_HOUR, normalizeAddress } from './constants';
+
+const CANDLE_RESOLUTIONS: Array<{ resolution: string; seconds: number }> = [
+  { resolution: '1h', seconds: SECONDS_PER_HOUR },
+  { resolution: '1d', seconds: SECONDS_PER_DAY },
+];
+
+/**
+ * Adds one USD price observation to the asset's 1h and 1d candles. Zero or
+ * negative prices are ignored so failed oracle reads do not distort the lows.
+ */
+export async function recordAssetPriceCandles(
+  context: handlerContext,
+  asset: string,
+  priceUsd: number,
+  timestamp: number
+): Promise<void> {
+  if (!(priceUsd > 0)) return;
+  const assetId = normalizeAddress(asset);
+
+  for (const { resolution, seconds } of CANDLE_RESOLUTIONS) {
+    const periodStart = Math.floor(timestamp / seconds) * seconds;
+    const id = `${assetId}-${resolution}-${periodStart}`;
+    const candle = await context.AssetPriceCandle.get(id);
+
+    if (!candle) {
+      context.AssetPriceCandle.set({
+        id,
+        asset: assetId,
+        resolution,
+        periodStart,
+        priceUsdOpen: priceUsd,
+        priceUsdHigh: priceUsd,
+        priceUsdLow: priceUsd,
+        priceUsdClose: priceUsd,
+        observationCount: 1,
+        updatedAt: timestamp,
+      });
+      continue;
+    }
+
+    context.AssetPriceCandle.set({
+      ...candle,
+      priceUsdHigh: Math.max(candle.priceUsdHigh, priceUsd),
+      priceUsdLow: Math.min(candle.priceUsdLow, priceUsd),
+      priceUsdClose: priceUsd,
+      observationCount: candle.observationCount + 1,
+      updatedAt: timestamp,
+    });
+  }
+}
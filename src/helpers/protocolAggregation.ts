@@ -5,6 +5,8 @@
 
 import type { handlerContext } from '../../generated';
 import { ensureAssetPrice } from '../handlers/shared';
+import { refreshReserveRewardAprs } from './incentiveApr';
+import { reprojectReserveUserRewards } from './userRewards';
 
 /**
  * Updates ProtocolStats USD aggregates by summing across all Reserves
@@ -92,10 +94,13 @@ export async function updateReserveUsdValues(
     priceE8,
     lastSuppliersInterestEarnedToken: reserve.lifetimeSuppliersInterestEarned,
     lastProtocolAccruedToken: reserve.lifetimeReserveFactorAccrued,
+    badDebtUsd: aggregate?.badDebtUsd ?? 0,
     updatedAt: timestamp,
   };
 
   context.ReserveAggregate.set(aggregate);
+  await refreshReserveRewardAprs(context, reserveId, timestamp);
+  await reprojectReserveUserRewards(context, reserveId, timestamp);
 
   // Update ProtocolStats incrementally with revenue tracking
   await updateProtocolStatsIncremental(
@@ -273,6 +278,7 @@ export async function updatePoolStatsIncremental(
     borrowsE8: 0n,
     availableE8: 0n,
     tvlE8: 0n,
+    badDebtUsd: 0,
     updatedAt: timestamp,
   };
 
@@ -296,3 +302,53 @@ export async function updatePoolStatsIncremental(
     updatedAt: timestamp,
   });
 }
+
+/**
+ * Adds unrecoverable debt (USD) to the debt reserve's ReserveAggregate and its
+ * pool's PoolStats running bad-debt totals.
+ */
+export async function recordBadDebtUsd(
+  context: handlerContext,
+  reserveId: string,
+  poolId: string,
+  amountUsd: number,
+  timestamp: number
+): Promise<void> {
+  const aggregate = await context.ReserveAggregate.get(reserveId);
+  context.ReserveAggregate.set({
+    ...(aggregate ?? {
+      id: reserveId,
+      suppliesUsd: 0,
+      borrowsUsd: 0,
+      availableUsd: 0,
+      suppliesE8: 0n,
+      borrowsE8: 0n,
+      availableE8: 0n,
+      priceE8: 0n,
+      lastSuppliersInterestEarnedToken: 0n,
+      lastProtocolAccruedToken: 0n,
+      badDebtUsd: 0,
+    }),
+    badDebtUsd: (aggregate?.badDebtUsd ?? 0) + amountUsd,
+    updatedAt: timestamp,
+  });
+
+  const id = poolId.toLowerCase();
+  const poolStats = await context.PoolStats.get(id);
+  context.PoolStats.set({
+    ...(poolStats ?? {
+      id,
+      suppliesUsd: 0,
+      borrowsUsd: 0,
+      availableUsd: 0,
+      tvlUsd: 0,
+      suppliesE8: 0n,
+      borrowsE8: 0n,
+      availableE8: 0n,
+      tvlE8: 0n,
+      badDebtUsd: 0,
+    }),
+    badDebtUsd: (poolStats?.badDebtUsd ?? 0) + amountUsd,
+    updatedAt: timestamp,
+  });
+}
@@ -0,0 +1,207 @@
+/**
+ * Reserve Cap Utilization Helper
+ * Supply cap, borrow cap and debt ceiling usage with 80/95/100% threshold events
+ */
+
+import type { handlerContext, ReserveCapUtilization } from '../../generated';
+import { exponentToBigInt } from './math';
+
+const BPS = 10000n;
+// Threshold levels in percent; a cap "binds" at 100.
+const CAP_THRESHOLDS = [80, 95, 100];
+
+type CapType = 'supplyCap' | 'borrowCap' | 'debtCeiling';
+
+type CapState = {
+  utilization: number;
+  level: number;
+  bindCount: number;
+  boundSince: number | undefined;
+  boundSeconds: number;
+};
+
+type CapEventMeta = {
+  reserveId: string;
+  poolId: string;
+  txHash: string;
+  logIndex: number;
+  timestamp: number;
+};
+
+function advanceCap(
+  context: handlerContext,
+  capType: CapType,
+  state: CapState,
+  used: bigint,
+  cap: bigint,
+  meta: CapEventMeta
+): CapState {
+  // A zero cap means "no cap" in Aave V3.
+  const utilizationBps = cap > 0n ? (used * BPS) / cap : 0n;
+  const utilization = Number(utilizationBps) / Number(BPS);
+  let level = 0;
+  for (const threshold of CAP_THRESHOLDS) {
+    if (utilizationBps >= (BigInt(threshold) * BPS) / 100n) level = threshold;
+  }
+
+  const next: CapState = { ...state, utilization, level };
+  if (level === state.level) return next;
+
+  const rising = level > state.level;
+  for (const threshold of CAP_THRESHOLDS) {
+    const crossed = rising
+      ? state.level < threshold && threshold <= level
+      : level < threshold && threshold <= state.level;
+    if (!crossed) continue;
+
+    let durationSeconds: number | undefined;
+    if (threshold === 100 && rising) {
+      next.bindCount = state.bindCount + 1;
+      next.boundSince = meta.timestamp;
+    } else if (threshold === 100) {
+      durationSeconds = meta.timestamp - (state.boundSince ?? meta.timestamp);
+      next.boundSeconds = state.boundSeconds + durationSeconds;
+      next.boundSince = undefined;
+    }
+
+    context.ReserveCapThresholdEvent.set({
+      id: `${meta.reserveId}-${capType}-${threshold}-${meta.txHash}-${meta.logIndex}`,
+      reserve_id: meta.reserveId,
+      pool_id: meta.poolId,
+      capType,
+      threshold,
+      direction: rising ? 'up' : 'down',
+      utilization,
+      used,
+      cap,
+      durationSeconds,
+      txHash: meta.txHash,
+      timestamp: meta.timestamp,
+    });
+  }
+  return next;
+}
+
+/**
+ * Re-evaluates a reserve's supply cap, borrow cap and debt ceiling usage after
+ * its totals or caps change. Caps are in whole tokens; the debt ceiling and
+ * isolation-mode debt share the 2-decimal USD unit. Pass
+ * `isolationModeTotalDebt` from IsolationModeTotalDebtUpdated; otherwise the
+ * last reported value is kept.
+ */
+export async function updateReserveCapUtilization(
+  context: handlerContext,
+  reserveId: string,
+  event: { txHash: string; logIndex: number; timestamp: number },
+  isolationModeTotalDebt?: bigint
+): Promise<void> {
+  const reserve = await context.Reserve.get(reserveId);
+  if (!reserve) return;
+
+  const existing = await context.ReserveCapUtilization.get(reserveId);
+  const base: ReserveCapUtilization = existing ?? {
+    id: reserveId,
+    reserve_id: reserveId,
+    pool_id: reserve.pool_id,
+    supplyCap: 0n,
+    borrowCap: 0n,
+    debtCeiling: 0n,
+    totalSupplied: 0n,
+    totalDebt: 0n,
+    isolationModeTotalDebt: 0n,
+    supplyCapUtilization: 0,
+    supplyCapLevel: 0,
+    supplyCapBindCount: 0,
+    supplyCapBoundSince: undefined,
+    supplyCapBoundSeconds: 0,
+    borrowCapUtilization: 0,
+    borrowCapLevel: 0,
+    borrowCapBindCount: 0,
+    borrowCapBoundSince: undefined,
+    borrowCapBoundSeconds: 0,
+    debtCeilingUtilization: 0,
+    debtCeilingLevel: 0,
+    debtCeilingBindCount: 0,
+    debtCeilingBoundSince: undefined,
+    debtCeilingBoundSeconds: 0,
+    updatedAt: event.timestamp,
+  };
+
+  const unit = exponentToBigInt(reserve.decimals);
+  const supplyCap = reserve.supplyCap ?? 0n;
+  const borrowCap = reserve.borrowCap ?? 0n;
+  const debtCeiling = reserve.debtCeiling ?? 0n;
+  const totalSupplied = reserve.totalATokenSupply;
+  const totalDebt = reserve.totalCurrentVariableDebt + reserve.totalPrincipalStableDebt;
+  const isolatedDebt = isolationModeTotalDebt ?? base.isolationModeTotalDebt;
+  const meta = { reserveId, poolId: reserve.pool_id, ...event };
+
+  const supply = advanceCap(
+    context,
+    'supplyCap',
+    {
+      utilization: base.supplyCapUtilization,
+      level: base.supplyCapLevel,
+      bindCount: base.supplyCapBindCount,
+      boundSince: base.supplyCapBoundSince,
+      boundSeconds: base.supplyCapBoundSeconds,
+    },
+    totalSupplied,
+    supplyCap * unit,
+    meta
+  );
+  const borrow = advanceCap(
+    context,
+    'borrowCap',
+    {
+      utilization: base.borrowCapUtilization,
+      level: base.borrowCapLevel,
+      bindCount: base.borrowCapBindCount,
+      boundSince: base.borrowCapBoundSince,
+      boundSeconds: base.borrowCapBoundSeconds,
+    },
+    totalDebt,
+    borrowCap * unit,
+    meta
+  );
+  const ceiling = advanceCap(
+    context,
+    'debtCeiling',
+    {
+      utilization: base.debtCeilingUtilization,
+      level: base.debtCeilingLevel,
+      bindCount: base.debtCeilingBindCount,
+      boundSince: base.debtCeilingBoundSince,
+      boundSeconds: base.debtCeilingBoundSeconds,
+    },
+    isolatedDebt,
+    debtCeiling,
+    meta
+  );
+
+  context.ReserveCapUtilization.set({
+    ...base,
+    supplyCap,
+    borrowCap,
+    debtCeiling,
+    totalSupplied,
+    totalDebt,
+    isolationModeTotalDebt: isolatedDebt,
+    supplyCapUtilization: supply.utilization,
+    supplyCapLevel: supply.level,
+    supplyCapBindCount: supply.bindCount,
+    supplyCapBoundSince: supply.boundSince,
+    supplyCapBoundSeconds: supply.boundSeconds,
+    borrowCapUtilization: borrow.utilization,
+    borrowCapLevel: borrow.level,
+    borrowCapBindCount: borrow.bindCount,
+    borrowCapBoundSince: borrow.boundSince,
+    borrowCapBoundSeconds: borrow.boundSeconds,
+    debtCeilingUtilization: ceiling.utilization,
+    debtCeilingLevel: ceiling.level,
+    debtCeilingBindCount: ceiling.bindCount,
+    debtCeilingBoundSince: ceiling.boundSince,
+    debtCeilingBoundSeconds: ceiling.boundSeconds,
+    updatedAt: event.timestamp,
+  });
+}
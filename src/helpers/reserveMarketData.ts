@@ -0,0 +1,215 @@
+/**
+ * Reserve Market Data Helper
+ * Hourly and daily OHLC candles of reserve rates, utilization and activity
+ */
+
+import type { handlerContext } from '../../generated';
+import { SECONDS_PER_DAY, SECONDS_PER_HOUR } from './constants';
+import { calculateUtilizationRate, rayRateToApy, toDecimal } from './math';
+
+export type ReserveActivityKind = 'deposit' | 'borrow' | 'repay' | 'withdraw' | 'liquidation';
+
+type MarketSample = {
+  supplyApy: number;
+  variableBorrowApy: number;
+  utilization: number;
+  totalSupplied: bigint;
+  totalBorrowed: bigint;
+  totalSuppliedUsd: number;
+  totalBorrowedUsd: number;
+};
+
+type MarketCandle = {
+  supplyApyOpen: number;
+  supplyApyHigh: number;
+  supplyApyLow: number;
+  supplyApyClose: number;
+  variableBorrowApyOpen: number;
+  variableBorrowApyHigh: number;
+  variableBorrowApyLow: number;
+  variableBorrowApyClose: number;
+  utilizationOpen: number;
+  utilizationHigh: number;
+  utilizationLow: number;
+  utilizationClose: number;
+  totalSupplied: bigint;
+  totalBorrowed: bigint;
+  totalSuppliedUsd: number;
+  totalBorrowedUsd: number;
+  depositCount: number;
+  depositVolume: bigint;
+  depositVolumeUsd: number;
+  borrowCount: number;
+  borrowVolume: bigint;
+  borrowVolumeUsd: number;
+  repayCount: number;
+  repayVolume: bigint;
+  repayVolumeUsd: number;
+  withdrawCount: number;
+  withdrawVolume: bigint;
+  withdrawVolumeUsd: number;
+  liquidationCount: number;
+  liquidationVolume: bigint;
+  liquidationVolumeUsd: number;
+  updatedAt: number;
+};
+
+function openCandle(sample: MarketSample, timestamp: number): MarketCandle {
+  return {
+    supplyApyOpen: sample.supplyApy,
+    supplyApyHigh: sample.supplyApy,
+    supplyApyLow: sample.supplyApy,
+    supplyApyClose: sample.supplyApy,
+    variableBorrowApyOpen: sample.variableBorrowApy,
+    variableBorrowApyHigh: sample.variableBorrowApy,
+    variableBorrowApyLow: sample.variableBorrowApy,
+    variableBorrowApyClose: sample.variableBorrowApy,
+    utilizationOpen: sample.utilization,
+    utilizationHigh: sample.utilization,
+    utilizationLow: sample.utilization,
+    utilizationClose: sample.utilization,
+    totalSupplied: sample.totalSupplied,
+    totalBorrowed: sample.totalBorrowed,
+    totalSuppliedUsd: sample.totalSuppliedUsd,
+    totalBorrowedUsd: sample.totalBorrowedUsd,
+    depositCount: 0,
+    depositVolume: 0n,
+    depositVolumeUsd: 0,
+    borrowCount: 0,
+    borrowVolume: 0n,
+    borrowVolumeUsd: 0,
+    repayCount: 0,
+    repayVolume: 0n,
+    repayVolumeUsd: 0,
+    withdrawCount: 0,
+    withdrawVolume: 0n,
+    withdrawVolumeUsd: 0,
+    liquidationCount: 0,
+    liquidationVolume: 0n,
+    liquidationVolumeUsd: 0,
+    updatedAt: timestamp,
+  };
+}
+
+function applySample<T extends MarketCandle>(
+  candle: T,
+  sample: MarketSample,
+  activity: { kind: ReserveActivityKind; amount: bigint; amountUsd: number } | undefined,
+  timestamp: number
+): T {
+  const next: T = {
+    ...candle,
+    supplyApyHigh: Math.max(candle.supplyApyHigh, sample.supplyApy),
+    supplyApyLow: Math.min(candle.supplyApyLow, sample.supplyApy),
+    supplyApyClose: sample.supplyApy,
+    variableBorrowApyHigh: Math.max(candle.variableBorrowApyHigh, sample.variableBorrowApy),
+    variableBorrowApyLow: Math.min(candle.variableBorrowApyLow, sample.variableBorrowApy),
+    variableBorrowApyClose: sample.variableBorrowApy,
+    utilizationHigh: Math.max(candle.utilizationHigh, sample.utilization),
+    utilizationLow: Math.min(candle.utilizationLow, sample.utilization),
+    utilizationClose: sample.utilization,
+    totalSupplied: sample.totalSupplied,
+    totalBorrowed: sample.totalBorrowed,
+    totalSuppliedUsd: sample.totalSuppliedUsd,
+    totalBorrowedUsd: sample.totalBorrowedUsd,
+    updatedAt: timestamp,
+  };
+  if (!activity) return next;
+
+  switch (activity.kind) {
+    case 'deposit':
+      next.depositCount += 1;
+      next.depositVolume += activity.amount;
+      next.depositVolumeUsd += activity.amountUsd;
+      break;
+    case 'borrow':
+      next.borrowCount += 1;
+      next.borrowVolume += activity.amount;
+      next.borrowVolumeUsd += activity.amountUsd;
+      break;
+    case 'repay':
+      next.repayCount += 1;
+      next.repayVolume += activity.amount;
+      next.repayVolumeUsd += activity.amountUsd;
+      break;
+    case 'withdraw':
+      next.withdrawCount += 1;
+      next.withdrawVolume += activity.amount;
+      next.withdrawVolumeUsd += activity.amountUsd;
+      break;
+    case 'liquidation':
+      next.liquidationCount += 1;
+      next.liquidationVolume += activity.amount;
+      next.liquidationVolumeUsd += activity.amountUsd;
+      break;
+  }
+  return next;
+}
+
+/**
+ * Samples the reserve's current rates, utilization and totals into its hourly
+ * and daily candles, optionally counting one Supply/Borrow/Repay/Withdraw/
+ * LiquidationCall of `activity.amount` underlying tokens.
+ */
+export async function recordReserveMarketData(
+  context: handlerContext,
+  reserveId: string,
+  timestamp: number,
+  activity?: { kind: ReserveActivityKind; amount: bigint }
+): Promise<void> {
+  const reserve = await context.Reserve.get(reserveId);
+  if (!reserve) return;
+
+  const totalBorrowed = reserve.totalCurrentVariableDebt + reserve.totalPrincipalStableDebt;
+  const sample: MarketSample = {
+    supplyApy: rayRateToApy(reserve.liquidityRate),
+    variableBorrowApy: rayRateToApy(reserve.variableBorrowRate),
+    utilization: calculateUtilizationRate(totalBorrowed, reserve.availableLiquidity),
+    totalSupplied: reserve.totalATokenSupply,
+    totalBorrowed,
+    totalSuppliedUsd: toDecimal(reserve.totalATokenSupply, reserve.decimals) * reserve.priceInUsd,
+    totalBorrowedUsd: toDecimal(totalBorrowed, reserve.decimals) * reserve.priceInUsd,
+  };
+  const sampleActivity = activity
+    ? {
+        ...activity,
+        amountUsd: toDecimal(activity.amount, reserve.decimals) * reserve.priceInUsd,
+      }
+    : undefined;
+
+  const hourStart = Math.floor(timestamp / SECONDS_PER_HOUR) * SECONDS_PER_HOUR;
+  const hourId = `${reserveId}-${hourStart}`;
+  const hourData = await context.ReserveHourData.get(hourId);
+  context.ReserveHourData.set(
+    applySample(
+      hourData ?? {
+        id: hourId,
+        reserve_id: reserveId,
+        pool_id: reserve.pool_id,
+        hourStart,
+        ...openCandle(sample, timestamp),
+      },
+      sample,
+      sampleActivity,
+      timestamp
+    )
+  );
+
+  const day = Math.floor(timestamp / SECONDS_PER_DAY);
+  const dayId = `${reserveId}-${day}`;
+  const dayData = await context.ReserveDayData.get(dayId);
+  context.ReserveDayData.set(
+    applySample(
+      dayData ?? {
+        id: dayId,
+        reserve_id: reserveId,
+        pool_id: reserve.pool_id,
+        day,
+        ...openCandle(sample, timestamp),
+      },
+      sample,
+      sampleActivity,
+      timestamp
+    )
+  );
+}
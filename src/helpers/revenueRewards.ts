@@ -0,0 +1,183 @@
+/**
+ * RevenueReward Estimate Helper
+ * Per-veNFT claimable RevenueReward balances replicated from epoch notifications
+ */
+
+import type { handlerContext, RevenueRewardClaimable } from '../../generated';
+import {
+  REVENUE_REWARD_MAX_SETTLEMENTS_PER_NOTIFY,
+  SECONDS_PER_WEEK,
+  normalizeAddress,
+} from './constants';
+import { calculateVotingPower } from './points';
+import type { VeDustLockShape } from './veDustSupply';
+import { getTotalVotingPowerAtWeek } from './veDustSupply';
+
+async function getOrInitClaimable(
+  context: handlerContext,
+  tokenId: string,
+  rewardToken: string,
+  timestamp: number
+): Promise<RevenueRewardClaimable> {
+  const id = `${tokenId}:${rewardToken}`;
+  const existing = await context.RevenueRewardClaimable.get(id);
+  return (
+    existing ?? {
+      id,
+      tokenId: BigInt(tokenId),
+      rewardToken,
+      earned: 0n,
+      claimed: 0n,
+      claimable: 0n,
+      settledThrough: 0,
+      updatedAt: timestamp,
+    }
+  );
+}
+
+function withBalances(
+  row: RevenueRewardClaimable,
+  earned: bigint,
+  claimed: bigint,
+  timestamp: number
+): RevenueRewardClaimable {
+  const claimable = earned - claimed;
+  return {
+    ...row,
+    earned,
+    claimed,
+    claimable: claimable > 0n ? claimable : 0n,
+    updatedAt: timestamp,
+  };
+}
+
+/**
+ * Appends a newly tracked veNFT to the ordered DustLockRevenueSlot index that
+ * settleIdleRevenueRewards pages through.
+ */
+async function registerRevenueSlot(
+  context: handlerContext,
+  tokenId: string,
+  timestamp: number
+): Promise<void> {
+  const sweep = await context.DustLockRevenueSweep.get('global');
+  const slot = sweep?.tokenCount ?? 0;
+  context.DustLockRevenueSlot.set({ id: String(slot), tokenId, addedAt: timestamp });
+  context.DustLockRevenueSweep.set({
+    id: 'global',
+    tokenCount: slot + 1,
+    cursorIndex: sweep?.cursorIndex ?? 0,
+    lastSweepTimestamp: sweep?.lastSweepTimestamp ?? timestamp,
+    lastUpdate: timestamp,
+  });
+}
+
+/**
+ * Credits `tokenId` its share of every RevenueReward epoch that ended since it
+ * was last settled and stamps all of its rows with the new settledThrough.
+ * `lock` must be the token's shape over that whole span, so call this before
+ * applying a lock change.
+ */
+export async function settleRevenueRewards(
+  context: handlerContext,
+  tokenId: string,
+  lock: VeDustLockShape,
+  timestamp: number
+): Promise<void> {
+  const cursor = await context.DustLockRevenueCursor.get(tokenId);
+  if (cursor && cursor.settledThrough >= timestamp) return;
+
+  const settled = new Map<string, RevenueRewardClaimable>();
+  if (!cursor) await registerRevenueSlot(context, tokenId, timestamp);
+  if (cursor) {
+    const firstBoundary =
+      (Math.floor(cursor.settledThrough / SECONDS_PER_WEEK) + 1) * SECONDS_PER_WEEK;
+    for (let boundary = firstBoundary; boundary <= timestamp; boundary += SECONDS_PER_WEEK) {
+      const votingPower = calculateVotingPower(
+        lock.lockedAmount,
+        lock.end,
+        lock.isPermanent,
+        boundary
+      );
+      // A fixed lock never regains voting power, so later epochs pay nothing.
+      if (votingPower === 0n) break;
+      const epochs = await context.RevenueRewardEpoch.getWhere.epoch.eq(
+        boundary - SECONDS_PER_WEEK
+      );
+      if (epochs.length === 0) continue;
+      const totalVotingPower = await getTotalVotingPowerAtWeek(context, boundary);
+      if (totalVotingPower === 0n) continue;
+
+      for (const epoch of epochs) {
+        const share = (epoch.amount * votingPower) / totalVotingPower;
+        if (share === 0n) continue;
+        const row =
+          settled.get(epoch.token) ??
+          (await getOrInitClaimable(context, tokenId, epoch.token, timestamp));
+        settled.set(epoch.token, withBalances(row, row.earned + share, row.claimed, timestamp));
+      }
+    }
+  }
+
+  const rows = await context.RevenueRewardClaimable.getWhere.tokenId.eq(BigInt(tokenId));
+  for (const row of rows) {
+    if (!settled.has(row.rewardToken)) settled.set(row.rewardToken, row);
+  }
+  for (const row of settled.values()) {
+    context.RevenueRewardClaimable.set({ ...row, settledThrough: timestamp });
+  }
+  context.DustLockRevenueCursor.set({ id: tokenId, settledThrough: timestamp });
+}
+
+/**
+ * Settles the next REVENUE_REWARD_MAX_SETTLEMENTS_PER_NOTIFY veNFTs of the
+ * slot index at their current lock shape (unchanged since their last
+ * settlement, which every lock change triggers), so idle tokens follow new
+ * epochs without waiting for their own lock change or claim.
+ */
+export async function settleIdleRevenueRewards(
+  context: handlerContext,
+  timestamp: number
+): Promise<void> {
+  const sweep = await context.DustLockRevenueSweep.get('global');
+  if (!sweep || sweep.tokenCount === 0) return;
+
+  const startIndex = sweep.cursorIndex % sweep.tokenCount;
+  const maxSettlements = Math.min(sweep.tokenCount, REVENUE_REWARD_MAX_SETTLEMENTS_PER_NOTIFY);
+  for (let offset = 0; offset < maxSettlements; offset += 1) {
+    const slot = await context.DustLockRevenueSlot.get(
+      String((startIndex + offset) % sweep.tokenCount)
+    );
+    const token = slot ? await context.DustLockToken.get(slot.tokenId) : undefined;
+    if (token) await settleRevenueRewards(context, token.id, token, timestamp);
+  }
+
+  context.DustLockRevenueSweep.set({
+    ...sweep,
+    cursorIndex: (startIndex + maxSettlements) % sweep.tokenCount,
+    lastSweepTimestamp:
+      startIndex + maxSettlements >= sweep.tokenCount ? timestamp : sweep.lastSweepTimestamp,
+    lastUpdate: timestamp,
+  });
+}
+
+/**
+ * Settles the veNFT up to the claim and books `amount` of `rewardToken` as
+ * claimed against its estimated earnings.
+ */
+export async function recordRevenueRewardClaim(
+  context: handlerContext,
+  tokenId: string,
+  rewardToken: string,
+  amount: bigint,
+  timestamp: number
+): Promise<void> {
+  const token = await context.DustLockToken.get(tokenId);
+  if (token) {
+    await settleRevenueRewards(context, tokenId, token, timestamp);
+  }
+  const row = await getOrInitClaimable(context, tokenId, normalizeAddress(rewardToken), timestamp);
+  context.RevenueRewardClaimable.set(
+    withBalances(row, row.earned, row.claimed + amount, timestamp)
+  );
+}
@@ -0,0 +1,132 @@
+/**
+ * Self-Repay Analytics Helper
+ * Revenue-funded repayments, targeted debt and projected payoff per vault and veNFT
+ */
+
+import type { handlerContext, SelfRepayAnalytics, SubToken } from '../../generated';
+import { getAssetPriceUSD } from '../handlers/shared';
+import { SECONDS_PER_WEEK } from './constants';
+import { getReserveId, getUserReserveId } from './entityHelpers';
+import { toDecimal } from './math';
+import { calculateVotingPower } from './points';
+
+type RepaymentScope = { id: string; scope: 'vault' | 'veNFT'; tokenId?: bigint };
+
+async function creditRepayment(
+  context: handlerContext,
+  target: RepaymentScope,
+  params: {
+    vault: string;
+    user: string;
+    debtReserveId: string;
+    repaidUsd: number;
+    outstandingDebtUsd: number;
+    timestamp: number;
+  }
+): Promise<void> {
+  const { timestamp } = params;
+  const existing = await context.SelfRepayAnalytics.get(target.id);
+  const base: SelfRepayAnalytics = existing ?? {
+    id: target.id,
+    scope: target.scope,
+    vault: params.vault,
+    tokenId: target.tokenId,
+    user: params.user,
+    debtReserve_id: undefined,
+    repaidUsd: 0,
+    repaymentCount: 0,
+    firstRepaymentAt: timestamp,
+    lastRepaymentAt: timestamp,
+    averageRepaidUsdPerEpoch: 0,
+    outstandingDebtUsd: 0,
+    projectedPayoffAt: undefined,
+    updatedAt: timestamp,
+  };
+
+  const repaidUsd = base.repaidUsd + params.repaidUsd;
+  const epochs =
+    Math.floor(timestamp / SECONDS_PER_WEEK) -
+    Math.floor(base.firstRepaymentAt / SECONDS_PER_WEEK) +
+    1;
+  const averageRepaidUsdPerEpoch = repaidUsd / epochs;
+  const projectedPayoffAt =
+    averageRepaidUsdPerEpoch > 0 && params.outstandingDebtUsd > 0
+      ? timestamp +
+        Math.ceil(params.outstandingDebtUsd / averageRepaidUsdPerEpoch) * SECONDS_PER_WEEK
+      : undefined;
+
+  context.SelfRepayAnalytics.set({
+    ...base,
+    user: params.user,
+    debtReserve_id: params.debtReserveId,
+    repaidUsd,
+    repaymentCount: base.repaymentCount + 1,
+    lastRepaymentAt: timestamp,
+    averageRepaidUsdPerEpoch,
+    outstandingDebtUsd: params.outstandingDebtUsd,
+    projectedPayoffAt,
+    updatedAt: timestamp,
+  });
+}
+
+/**
+ * Credits a LoanSelfRepaid repayment of `debtToken`'s underlying to the vault
+ * and, weighted by voting power, to the self-repaying veNFTs paying into it.
+ * Each veNFT carries the same share of the outstanding debt as of the
+ * repayment, so its payoff projection matches the vault's.
+ */
+export async function recordSelfRepayment(
+  context: handlerContext,
+  params: {
+    vault: string;
+    user: string;
+    debtToken: SubToken;
+    amount: bigint;
+    timestamp: number;
+  }
+): Promise<void> {
+  const { vault, user, debtToken, timestamp } = params;
+  const debtAsset = debtToken.underlyingAssetAddress;
+  const debtReserveId = getReserveId(debtAsset, debtToken.pool_id);
+  const [priceUsd, userReserve] = await Promise.all([
+    getAssetPriceUSD(context, debtAsset, timestamp),
+    context.UserReserve.get(getUserReserveId(user, debtReserveId)),
+  ]);
+  const decimals = debtToken.underlyingAssetDecimals;
+  const repaidUsd = toDecimal(params.amount, decimals) * priceUsd;
+  const outstandingDebtUsd = toDecimal(userReserve?.currentTotalDebt ?? 0n, decimals) * priceUsd;
+  const credit = { vault, user, debtReserveId, outstandingDebtUsd, timestamp };
+
+  await creditRepayment(
+    context,
+    { id: `vault-${vault}`, scope: 'vault' },
+    { ...credit, repaidUsd }
+  );
+
+  const loans = (await context.SelfRepayingLoan.getWhere.receiver.eq(vault)).filter(
+    loan => loan.enabled
+  );
+  const weighted: Array<{ tokenId: bigint; votingPower: bigint }> = [];
+  for (const loan of loans) {
+    const token = await context.DustLockToken.get(loan.id);
+    if (!token) continue;
+    const votingPower = calculateVotingPower(
+      token.lockedAmount,
+      token.end,
+      token.isPermanent,
+      timestamp
+    );
+    if (votingPower > 0n) weighted.push({ tokenId: loan.tokenId, votingPower });
+  }
+  const totalVotingPower = weighted.reduce((sum, loan) => sum + loan.votingPower, 0n);
+  if (totalVotingPower === 0n) return;
+
+  for (const loan of weighted) {
+    const share = Number(loan.votingPower) / Number(totalVotingPower);
+    await creditRepayment(
+      context,
+      { id: `token-${loan.tokenId}`, scope: 'veNFT', tokenId: loan.tokenId },
+      { ...credit, repaidUsd: repaidUsd * share, outstandingDebtUsd: outstandingDebtUsd * share }
+    );
+  }
+}
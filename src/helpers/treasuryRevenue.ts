@@ -0,0 +1,261 @@
+/**
+ * Treasury Revenue Helper
+ * Daily per-source treasury revenue ledger (reserve, pool and protocol scope)
+ */
+
+import type { handlerContext, TreasuryRevenueDay } from '../../generated';
+import { getAssetPriceUSD, getDustPriceUSD } from '../handlers/shared';
+import { SECONDS_PER_DAY, normalizeAddress } from './constants';
+import { isTreasuryAddress } from './entityHelpers';
+import { toDecimal } from './math';
+
+const DUST_DECIMALS = 18;
+const PROTOCOL_SCOPE_ID = 'protocol';
+
+export type ReserveRevenueSource =
+  'reserveFactorInterest' | 'mintedToTreasury' | 'flashLoanPremium' | 'liquidationProtocolFee';
+
+export type DustRevenueSource = 'earlyWithdrawPenalty' | 'profileShopRevenue';
+
+type RevenueSource = ReserveRevenueSource | DustRevenueSource;
+
+// Reserve revenue is all paid to the reserve's aToken treasury.
+type RecipientSource = DustRevenueSource | 'reserve';
+
+const SOURCE_FIELDS: Record<
+  RevenueSource,
+  | 'reserveFactorInterestUsd'
+  | 'mintedToTreasuryUsd'
+  | 'flashLoanPremiumUsd'
+  | 'liquidationProtocolFeeUsd'
+  | 'earlyWithdrawPenaltyUsd'
+  | 'profileShopRevenueUsd'
+> = {
+  reserveFactorInterest: 'reserveFactorInterestUsd',
+  mintedToTreasury: 'mintedToTreasuryUsd',
+  flashLoanPremium: 'flashLoanPremiumUsd',
+  liquidationProtocolFee: 'liquidationProtocolFeeUsd',
+  earlyWithdrawPenalty: 'earlyWithdrawPenaltyUsd',
+  profileShopRevenue: 'profileShopRevenueUsd',
+};
+
+async function addTreasuryRevenue(
+  context: handlerContext,
+  scope: { scope: string; scopeId: string; reserveId?: string; poolId?: string },
+  source: RevenueSource,
+  amountUsd: number,
+  unverifiedUsd: number,
+  timestamp: number
+): Promise<void> {
+  const day = Math.floor(timestamp / SECONDS_PER_DAY);
+  const id = `${scope.scopeId}-${day}`;
+  const existing = await context.TreasuryRevenueDay.get(id);
+  const base: TreasuryRevenueDay = existing ?? {
+    id,
+    scope: scope.scope,
+    reserve_id: scope.reserveId,
+    pool_id: scope.poolId,
+    day,
+    reserveFactorInterestUsd: 0,
+    mintedToTreasuryUsd: 0,
+    flashLoanPremiumUsd: 0,
+    liquidationProtocolFeeUsd: 0,
+    earlyWithdrawPenaltyUsd: 0,
+    profileShopRevenueUsd: 0,
+    unverifiedRecipientUsd: 0,
+    totalUsd: 0,
+    updatedAt: timestamp,
+  };
+  const field = SOURCE_FIELDS[source];
+
+  context.TreasuryRevenueDay.set({
+    ...base,
+    [field]: base[field] + amountUsd,
+    unverifiedRecipientUsd: base.unverifiedRecipientUsd + unverifiedUsd,
+    // Realizations re-book revenue already counted as accrual.
+    totalUsd: source === 'mintedToTreasury' ? base.totalUsd : base.totalUsd + amountUsd,
+    updatedAt: timestamp,
+  });
+}
+
+/**
+ * TreasuryRevenueRecipient id of a reserve's aToken treasury.
+ */
+export function reserveRevenueRecipientId(reserveId: string): string {
+  return `reserve-${reserveId}`;
+}
+
+/**
+ * Adds `amountUsd` to a recipient's revenue and returns the part of it that is
+ * unverified: all of it unless the recipient was announced on-chain and is one
+ * of TREASURY_ADDRESSES.
+ */
+async function creditRevenueRecipient(
+  context: handlerContext,
+  recipientId: string,
+  source: RecipientSource,
+  amountUsd: number,
+  timestamp: number
+): Promise<number> {
+  const recipient = await context.TreasuryRevenueRecipient.get(recipientId);
+  context.TreasuryRevenueRecipient.set({
+    id: recipientId,
+    source,
+    recipient: recipient?.recipient,
+    isKnownTreasury: recipient?.isKnownTreasury ?? false,
+    revenueUsd: (recipient?.revenueUsd ?? 0) + amountUsd,
+    updatedAt: timestamp,
+  });
+  return recipient?.isKnownTreasury ? 0 : amountUsd;
+}
+
+/**
+ * Flash loan protocol premiums go to accruedToTreasury and are minted to the
+ * treasury together with the reserve-factor interest. Tracks the premium not
+ * yet minted (when `amount` is a premium) and returns the part of a treasury
+ * mint (when `amount` is minted) that is reserve-factor interest.
+ */
+async function netPendingFlashLoanPremium(
+  context: handlerContext,
+  reserveId: string,
+  source: ReserveRevenueSource,
+  amount: bigint,
+  timestamp: number
+): Promise<bigint> {
+  if (source !== 'flashLoanPremium' && source !== 'reserveFactorInterest') return amount;
+  const existing = await context.TreasuryPendingPremium.get(reserveId);
+  const pending = existing?.pendingFlashLoanPremium ?? 0n;
+  if (source === 'flashLoanPremium') {
+    context.TreasuryPendingPremium.set({
+      id: reserveId,
+      pendingFlashLoanPremium: pending + amount,
+      updatedAt: timestamp,
+    });
+    return amount;
+  }
+  if (pending === 0n) return amount;
+  const netted = pending < amount ? pending : amount;
+  context.TreasuryPendingPremium.set({
+    id: reserveId,
+    pendingFlashLoanPremium: pending - netted,
+    updatedAt: timestamp,
+  });
+  return amount - netted;
+}
+
+/**
+ * Books `amount` of a reserve's underlying as treasury revenue on the reserve,
+ * pool and protocol rows for the day, valued at the current asset price.
+ * Reserve-factor interest is booked net of flash loan premiums already counted.
+ * Revenue is unverified unless the reserve's aToken treasury is one of
+ * TREASURY_ADDRESSES.
+ */
+export async function recordReserveTreasuryRevenue(
+  context: handlerContext,
+  reserveId: string,
+  source: ReserveRevenueSource,
+  rawAmount: bigint,
+  timestamp: number
+): Promise<void> {
+  if (rawAmount <= 0n) return;
+  const reserve = await context.Reserve.get(reserveId);
+  if (!reserve) return;
+  const amount = await netPendingFlashLoanPremium(context, reserveId, source, rawAmount, timestamp);
+  if (amount <= 0n) return;
+
+  const priceUsd = await getAssetPriceUSD(context, reserve.underlyingAsset, timestamp);
+  const amountUsd = toDecimal(amount, reserve.decimals) * priceUsd;
+  if (amountUsd <= 0) return;
+  // A treasury mint re-states revenue the recipient was already credited with.
+  const unverifiedUsd = await creditRevenueRecipient(
+    context,
+    reserveRevenueRecipientId(reserveId),
+    'reserve',
+    source === 'mintedToTreasury' ? 0 : amountUsd,
+    timestamp
+  );
+
+  await addTreasuryRevenue(
+    context,
+    { scope: 'reserve', scopeId: reserveId, reserveId, poolId: reserve.pool_id },
+    source,
+    amountUsd,
+    unverifiedUsd,
+    timestamp
+  );
+  await addTreasuryRevenue(
+    context,
+    { scope: 'pool', scopeId: reserve.pool_id, poolId: reserve.pool_id },
+    source,
+    amountUsd,
+    unverifiedUsd,
+    timestamp
+  );
+  await addTreasuryRevenue(
+    context,
+    { scope: 'protocol', scopeId: PROTOCOL_SCOPE_ID },
+    source,
+    amountUsd,
+    unverifiedUsd,
+    timestamp
+  );
+}
+
+/**
+ * Points a revenue source (`recipientId`) at its payout address and flags
+ * whether that address is one of TREASURY_ADDRESSES.
+ */
+export async function setTreasuryRevenueRecipient(
+  context: handlerContext,
+  recipientId: string,
+  source: RecipientSource,
+  recipient: string,
+  timestamp: number
+): Promise<void> {
+  const existing = await context.TreasuryRevenueRecipient.get(recipientId);
+  const normalized = normalizeAddress(recipient);
+  context.TreasuryRevenueRecipient.set({
+    id: recipientId,
+    source,
+    recipient: normalized,
+    isKnownTreasury: isTreasuryAddress(normalized),
+    revenueUsd: existing?.revenueUsd ?? 0,
+    updatedAt: timestamp,
+  });
+}
+
+/**
+ * Books a DUST-denominated payment (early-withdraw penalty, shop sale) on the
+ * protocol row, valued at the LP-derived DUST price. Payments to a recipient
+ * outside TREASURY_ADDRESSES, or to one never announced on-chain, are also
+ * counted as unverified.
+ */
+export async function recordDustTreasuryRevenue(
+  context: handlerContext,
+  recipientId: string,
+  source: DustRevenueSource,
+  amount: bigint,
+  timestamp: number
+): Promise<void> {
+  if (amount <= 0n) return;
+  const priceUsd = await getDustPriceUSD(context);
+  const amountUsd = toDecimal(amount, DUST_DECIMALS) * priceUsd;
+  if (amountUsd <= 0) return;
+
+  const unverifiedUsd = await creditRevenueRecipient(
+    context,
+    recipientId,
+    source,
+    amountUsd,
+    timestamp
+  );
+
+  await addTreasuryRevenue(
+    context,
+    { scope: 'protocol', scopeId: PROTOCOL_SCOPE_ID },
+    source,
+    amountUsd,
+    unverifiedUsd,
+    timestamp
+  );
+}
@@ -0,0 +1,232 @@
+/**
+ * User Health Helper
+ * Per-(user, pool) collateral, debt and health factor (Pool.getUserAccountData)
+ */
+
+import type { handlerContext } from '../../generated';
+import { getCurrentBalancesFromScaled } from '../handlers/shared';
+import { updateReserveUsdValues } from './protocolAggregation';
+import {
+  SECONDS_PER_HOUR,
+  USER_HEALTH_MAX_REFRESHES_PER_PRICE,
+  normalizeAddress,
+} from './constants';
+
+const BPS = 10000n;
+
+export function getUserHealthId(userId: string, poolId: string): string {
+  return `${normalizeAddress(userId)}-${normalizeAddress(poolId)}`;
+}
+
+/**
+ * Health factor = sum(collateral * liquidationThreshold) / debt.
+ * Returns undefined when there is no debt (Aave reports uint256 max).
+ */
+export function calculateHealthFactor(
+  weightedCollateralE8: bigint,
+  totalDebtE8: bigint
+): number | undefined {
+  if (totalDebtE8 === 0n) return undefined;
+  return Number(weightedCollateralE8) / Number(BPS) / Number(totalDebtE8);
+}
+
+/**
+ * Resolves the collateral parameters (bps) for a reserve, applying the user's
+ * eMode category when the asset belongs to it.
+ */
+export async function getCollateralParams(
+  context: handlerContext,
+  reserve: {
+    underlyingAsset: string;
+    eMode_id?: string;
+    reserveLiquidationThreshold: bigint;
+    baseLTVasCollateral: bigint;
+    reserveLiquidationBonus: bigint;
+  },
+  eModeCategoryId: string | undefined
+): Promise<{ liquidationThreshold: bigint; ltv: bigint; liquidationBonus: bigint }> {
+  if (eModeCategoryId && eModeCategoryId !== '0') {
+    const category = await context.EModeCategory.get(eModeCategoryId);
+    if (category) {
+      let inCategory = reserve.eMode_id === eModeCategoryId;
+      if (!inCategory) {
+        const config = await context.EModeCategoryConfig.get(
+          `${reserve.underlyingAsset}-${eModeCategoryId}`
+        );
+        inCategory = config?.collateral ?? false;
+      }
+      if (inCategory) {
+        return {
+          liquidationThreshold: category.liquidationThreshold,
+          ltv: category.ltv,
+          liquidationBonus: category.liquidationBonus,
+        };
+      }
+    }
+  }
+  return {
+    liquidationThreshold: reserve.reserveLiquidationThreshold,
+    ltv: reserve.baseLTVasCollateral,
+    liquidationBonus: reserve.reserveLiquidationBonus,
+  };
+}
+
+/**
+ * Recomputes UserHealth for one user in one pool and upserts the hourly
+ * UserHealthHistory bucket.
+ */
+export async function refreshUserHealth(
+  context: handlerContext,
+  userAddress: string,
+  poolId: string,
+  timestamp: number
+): Promise<void> {
+  const userId = normalizeAddress(userAddress);
+  const normalizedPoolId = normalizeAddress(poolId);
+  const reserveList = await context.UserReserveList.get(userId);
+  if (!reserveList) return;
+
+  const user = await context.User.get(userId);
+  const eModeCategoryId = user?.eModeCategoryId_id;
+
+  let totalCollateralE8 = 0n;
+  let totalDebtE8 = 0n;
+  let weightedThresholdE8 = 0n;
+  let weightedLtvE8 = 0n;
+
+  for (const reserveId of reserveList.reserveIds) {
+    const reserve = await context.Reserve.get(reserveId);
+    if (!reserve || reserve.pool_id !== normalizedPoolId) continue;
+    const userReserve = await context.UserReserve.get(`${userId}-${reserveId}`);
+    if (!userReserve) continue;
+
+    const balances = getCurrentBalancesFromScaled(reserve, userReserve, timestamp);
+    const unit = 10n ** BigInt(reserve.decimals);
+    const priceE8 = reserve.priceInUsdE8;
+
+    if (balances.totalDebt > 0n) {
+      totalDebtE8 += (balances.totalDebt * priceE8) / unit;
+    }
+
+    if (!userReserve.usageAsCollateralEnabledOnUser || balances.supply <= 0n) continue;
+    const params = await getCollateralParams(context, reserve, eModeCategoryId);
+    // A zero liquidation threshold means the asset cannot back debt at all.
+    if (params.liquidationThreshold === 0n) continue;
+
+    const collateralE8 = (balances.supply * priceE8) / unit;
+    totalCollateralE8 += collateralE8;
+    weightedThresholdE8 += collateralE8 * params.liquidationThreshold;
+    weightedLtvE8 += collateralE8 * params.ltv;
+  }
+
+  const currentLiquidationThreshold =
+    totalCollateralE8 > 0n ? weightedThresholdE8 / totalCollateralE8 : 0n;
+  const ltv = totalCollateralE8 > 0n ? weightedLtvE8 / totalCollateralE8 : 0n;
+  const healthFactor = calculateHealthFactor(weightedThresholdE8, totalDebtE8);
+  const totalCollateralUsd = Number(totalCollateralE8) / 1e8;
+  const totalDebtUsd = Number(totalDebtE8) / 1e8;
+
+  const id = getUserHealthId(userId, normalizedPoolId);
+  context.UserHealth.set({
+    id,
+    user_id: userId,
+    pool_id: normalizedPoolId,
+    eModeCategoryId,
+    totalCollateralUsd,
+    totalDebtUsd,
+    totalCollateralE8,
+    totalDebtE8,
+    currentLiquidationThreshold,
+    ltv,
+    healthFactor,
+    isLiquidatable: healthFactor !== undefined && healthFactor < 1,
+    updatedAt: timestamp,
+  });
+
+  const hourStart = Math.floor(timestamp / SECONDS_PER_HOUR) * SECONDS_PER_HOUR;
+  context.UserHealthHistory.set({
+    id: `${id}-${hourStart}`,
+    userHealth_id: id,
+    user_id: userId,
+    pool_id: normalizedPoolId,
+    hourStart,
+    totalCollateralUsd,
+    totalDebtUsd,
+    currentLiquidationThreshold,
+    ltv,
+    healthFactor,
+    lastUpdateTs: timestamp,
+  });
+}
+
+/**
+ * Refreshes up to USER_HEALTH_MAX_REFRESHES_PER_PRICE holders of the reserve,
+ * reading only that page of its UserHealthHolder slots from the reserve's
+ * UserHealthRefreshCursor, so repeated price updates and collateral
+ * configuration changes sweep every holder with bounded work per event.
+ */
+async function refreshUserHealthBatchForReserve(
+  context: handlerContext,
+  reserveId: string,
+  poolId: string,
+  timestamp: number
+): Promise<void> {
+  const registry = await context.UserHealthHolderRegistry.get(reserveId);
+  const holderCount = registry?.holderCount ?? 0;
+  if (holderCount === 0) return;
+
+  const cursor = await context.UserHealthRefreshCursor.get(reserveId);
+  const startIndex = (cursor?.cursorIndex ?? 0) % holderCount;
+  const maxRefreshes = Math.min(holderCount, USER_HEALTH_MAX_REFRESHES_PER_PRICE);
+  for (let offset = 0; offset < maxRefreshes; offset += 1) {
+    const slot = (startIndex + offset) % holderCount;
+    const holder = await context.UserHealthHolder.get(`${reserveId}-${slot}`);
+    if (holder) await refreshUserHealth(context, holder.user_id, poolId, timestamp);
+  }
+
+  context.UserHealthRefreshCursor.set({
+    id: reserveId,
+    reserve_id: reserveId,
+    cursorIndex: (startIndex + maxRefreshes) % holderCount,
+    lastSweepTimestamp:
+      startIndex + maxRefreshes >= holderCount
+        ? timestamp
+        : (cursor?.lastSweepTimestamp ?? timestamp),
+    lastUpdate: timestamp,
+  });
+}
+
+/**
+ * Refreshes the next bounded batch of the reserve's holders after a collateral
+ * configuration change; the shared cursor carries the rest over the following
+ * configuration changes and price updates.
+ */
+export async function refreshUserHealthForReserve(
+  context: handlerContext,
+  reserveId: string,
+  timestamp: number
+): Promise<void> {
+  const reserve = await context.Reserve.get(reserveId);
+  if (!reserve) return;
+  await refreshUserHealthBatchForReserve(context, reserveId, reserve.pool_id, timestamp);
+}
+
+/**
+ * Re-marks every reserve of the asset whose price moved to `priceE8` (so
+ * Reserve.priceInUsd and the USD aggregates follow the price) and refreshes a
+ * bounded batch of the users holding it.
+ */
+export async function refreshUserHealthForAsset(
+  context: handlerContext,
+  asset: string,
+  priceE8: bigint,
+  timestamp: number
+): Promise<void> {
+  const underlyingAsset = normalizeAddress(asset);
+  const reserves = await context.Reserve.getWhere.underlyingAsset.eq(underlyingAsset);
+  for (const reserve of reserves) {
+    if (reserve.priceInUsdE8 === priceE8) continue;
+    await updateReserveUsdValues(context, reserve.id, underlyingAsset, timestamp);
+    await refreshUserHealthBatchForReserve(context, reserve.id, reserve.pool_id, timestamp);
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * User Interest Helper
+ * Realized interest earned (aToken) and paid (variable/stable debt) per UserReserve
+ */
+
+import type { handlerContext, UserReserveInterest } from '../../generated';
+import { getAssetPriceUSD } from '../handlers/shared';
+import { rayMul, toDecimal } from './math';
+
+type InterestSide = 'supply' | 'variableDebt' | 'stableDebt';
+
+async function addUserReserveInterest(
+  context: handlerContext,
+  existing: UserReserveInterest | undefined,
+  userReserveId: string,
+  userId: string,
+  reserveId: string,
+  side: InterestSide,
+  interest: bigint,
+  index: bigint | undefined,
+  timestamp: number
+): Promise<void> {
+  const base = existing ?? {
+    id: userReserveId,
+    userReserve_id: userReserveId,
+    user_id: userId,
+    reserve_id: reserveId,
+    lastLiquidityIndex: 0n,
+    lastVariableBorrowIndex: 0n,
+    interestEarned: 0n,
+    interestEarnedUsd: 0,
+    variableInterestPaid: 0n,
+    stableInterestPaid: 0n,
+    interestPaidUsd: 0,
+    updatedAt: timestamp,
+  };
+
+  let interestUsd = 0;
+  if (interest > 0n) {
+    const reserve = await context.Reserve.get(reserveId);
+    if (reserve) {
+      const priceUsd = await getAssetPriceUSD(context, reserve.underlyingAsset, timestamp);
+      interestUsd = toDecimal(interest, reserve.decimals) * priceUsd;
+    }
+  }
+
+  const next = { ...base, updatedAt: timestamp };
+  if (side === 'supply') {
+    next.lastLiquidityIndex = index ?? base.lastLiquidityIndex;
+    next.interestEarned = base.interestEarned + interest;
+    next.interestEarnedUsd = base.interestEarnedUsd + interestUsd;
+  } else if (side === 'variableDebt') {
+    next.lastVariableBorrowIndex = index ?? base.lastVariableBorrowIndex;
+    next.variableInterestPaid = base.variableInterestPaid + interest;
+    next.interestPaidUsd = base.interestPaidUsd + interestUsd;
+  } else {
+    next.stableInterestPaid = base.stableInterestPaid + interest;
+    next.interestPaidUsd = base.interestPaidUsd + interestUsd;
+  }
+  context.UserReserveInterest.set(next);
+}
+
+/**
+ * Accrues aToken or variable-debt interest from index growth on the scaled
+ * balance held since the previous balance change, then moves the user's
+ * index checkpoint to `index`. Call with the scaled balance BEFORE the change.
+ */
+export async function accrueIndexedInterest(
+  context: handlerContext,
+  params: {
+    userReserveId: string;
+    userId: string;
+    reserveId: string;
+    side: 'supply' | 'variableDebt';
+    scaledBalance: bigint;
+    index: bigint;
+    timestamp: number;
+  }
+): Promise<void> {
+  const existing = await context.UserReserveInterest.get(params.userReserveId);
+  const lastIndex =
+    params.side === 'supply'
+      ? (existing?.lastLiquidityIndex ?? 0n)
+      : (existing?.lastVariableBorrowIndex ?? 0n);
+  const interest =
+    lastIndex > 0n && params.index > lastIndex && params.scaledBalance > 0n
+      ? rayMul(params.scaledBalance, params.index) - rayMul(params.scaledBalance, lastIndex)
+      : 0n;
+
+  await addUserReserveInterest(
+    context,
+    existing,
+    params.userReserveId,
+    params.userId,
+    params.reserveId,
+    params.side,
+    interest,
+    params.index,
+    params.timestamp
+  );
+}
+
+/**
+ * Accrues stable-debt interest reported as balanceIncrease on StableDebtToken
+ * mints and burns (stable debt has no index).
+ */
+export async function accrueStableDebtInterest(
+  context: handlerContext,
+  params: {
+    userReserveId: string;
+    userId: string;
+    reserveId: string;
+    balanceIncrease: bigint;
+    timestamp: number;
+  }
+): Promise<void> {
+  await addUserReserveInterest(
+    context,
+    await context.UserReserveInterest.get(params.userReserveId),
+    params.userReserveId,
+    params.userId,
+    params.reserveId,
+    'stableDebt',
+    params.balanceIncrease,
+    undefined,
+    params.timestamp
+  );
+}
@@ -0,0 +1,104 @@
+/**
+ * User Portfolio Helper
+ * Daily per-user net worth snapshots with carry-forward for inactive days
+ */
+
+import type { handlerContext, UserPortfolioDaySnapshot } from '../../generated';
+import { getCurrentBalancesFromScaled } from '../handlers/shared';
+import { SECONDS_PER_DAY, normalizeAddress } from './constants';
+
+type PortfolioValues = Omit<
+  UserPortfolioDaySnapshot,
+  'id' | 'user_id' | 'day' | 'netWorthChangeUsd' | 'isCarriedForward' | 'timestamp'
+>;
+
+async function readPortfolioValues(
+  context: handlerContext,
+  userId: string,
+  timestamp: number
+): Promise<PortfolioValues> {
+  let suppliedE8 = 0n;
+  let borrowedE8 = 0n;
+  const reserveList = await context.UserReserveList.get(userId);
+  for (const reserveId of reserveList?.reserveIds ?? []) {
+    const reserve = await context.Reserve.get(reserveId);
+    const userReserve = await context.UserReserve.get(`${userId}-${reserveId}`);
+    if (!reserve || !userReserve) continue;
+
+    const balances = getCurrentBalancesFromScaled(reserve, userReserve, timestamp);
+    const unit = 10n ** BigInt(reserve.decimals);
+    suppliedE8 += (balances.supply * reserve.priceInUsdE8) / unit;
+    borrowedE8 += (balances.totalDebt * reserve.priceInUsdE8) / unit;
+  }
+
+  const lpStats = await context.UserLPStats.get(userId);
+  const locks = await context.DustLockToken.getWhere.owner.eq(userId);
+  const user = await context.User.get(userId);
+
+  const suppliedUsd = Number(suppliedE8) / 1e8;
+  const borrowedUsd = Number(borrowedE8) / 1e8;
+  const lpValueUsd = Number(lpStats?.totalValueUsd ?? 0n) / 1e8;
+  return {
+    suppliedUsd,
+    borrowedUsd,
+    netPositionUsd: suppliedUsd - borrowedUsd,
+    lpValueUsd,
+    netWorthUsd: suppliedUsd - borrowedUsd + lpValueUsd,
+    veDustLocked: locks.reduce((sum, lock) => sum + lock.lockedAmount, 0n),
+    unclaimedRewards: user?.unclaimedRewards ?? 0n,
+    lifetimeRewards: user?.lifetimeRewards ?? 0n,
+  };
+}
+
+/**
+ * Takes the user's UserPortfolioDaySnapshot on their first activity of the UTC
+ * day. Every idle day since the previous snapshot is filled with that
+ * snapshot's values, prices included (isCarriedForward), and
+ * UserPortfolioState points at the new snapshot as the user's last known value. Later calls on the same day are no-ops.
+ */
+export async function recordUserPortfolioDay(
+  context: handlerContext,
+  userAddress: string,
+  timestamp: number
+): Promise<void> {
+  const userId = normalizeAddress(userAddress);
+  if (!userId) return;
+
+  const day = Math.floor(timestamp / SECONDS_PER_DAY);
+  const state = await context.UserPortfolioState.get(userId);
+  if (state && state.lastSnapshotDay >= day) return;
+
+  const previous = state
+    ? await context.UserPortfolioDaySnapshot.get(`${userId}-${state.lastSnapshotDay}`)
+    : undefined;
+  if (previous) {
+    for (let gapDay = previous.day + 1; gapDay < day; gapDay++) {
+      context.UserPortfolioDaySnapshot.set({
+        ...previous,
+        id: `${userId}-${gapDay}`,
+        day: gapDay,
+        netWorthChangeUsd: 0,
+        isCarriedForward: true,
+      });
+    }
+  }
+
+  const values = await readPortfolioValues(context, userId, timestamp);
+  context.UserPortfolioDaySnapshot.set({
+    id: `${userId}-${day}`,
+    user_id: userId,
+    day,
+    ...values,
+    netWorthChangeUsd: previous ? values.netWorthUsd - previous.netWorthUsd : 0,
+    isCarriedForward: false,
+    timestamp,
+  });
+  context.UserPortfolioState.set({
+    id: userId,
+    lastSnapshotDay: day,
+    latestSnapshot_id: `${userId}-${day}`,
+    latestNetWorthUsd: values.netWorthUsd,
+    latestSnapshotTimestamp: timestamp,
+    updatedAt: timestamp,
+  });
+}
@@ -0,0 +1,253 @@
+/**
+ * User Rewards Helper
+ * Per-(asset, reward) unclaimed RewardsController rewards from index math
+ */
+
+import type { handlerContext, UserRewardBalance } from '../../generated';
+import { USER_REWARD_MAX_PROJECTIONS_PER_UPDATE } from './constants';
+import { getUserReserveId } from './entityHelpers';
+import { rayDiv } from './math';
+
+async function getOrInitUserRewardBalance(
+  context: handlerContext,
+  params: { rewardsController: string; asset: string; rewardToken: string; user: string },
+  timestamp: number
+): Promise<UserRewardBalance> {
+  const rewardId = `${params.rewardsController}:${params.asset}:${params.rewardToken}`;
+  const id = `${rewardId}:${params.user}`;
+  const existing = await context.UserRewardBalance.get(id);
+  return (
+    existing ?? {
+      id,
+      user: params.user,
+      rewardsController: params.rewardsController,
+      asset: params.asset,
+      rewardToken: params.rewardToken,
+      reward_id: rewardId,
+      userIndex: 0n,
+      scaledBalance: 0n,
+      accrued: 0n,
+      pending: 0n,
+      unclaimed: 0n,
+      claimed: 0n,
+      lastAccruedTxHash: undefined,
+      lastAccruedLogIndex: undefined,
+      projectedAt: timestamp,
+      updatedAt: timestamp,
+    }
+  );
+}
+
+/**
+ * The user's and the asset's total scaled balance for an incentivized aToken,
+ * variable or stable debt token, resolved through its RewardApr reserve and
+ * side.
+ */
+async function getScaledBalances(
+  context: handlerContext,
+  row: UserRewardBalance
+): Promise<{ user: bigint; total: bigint }> {
+  const apr = await context.RewardApr.get(
+    `${row.rewardsController}-${row.asset}-${row.rewardToken}`
+  );
+  if (!apr?.reserve_id) return { user: 0n, total: 0n };
+  const [reserve, userReserve] = await Promise.all([
+    context.Reserve.get(apr.reserve_id),
+    context.UserReserve.get(getUserReserveId(row.user, apr.reserve_id)),
+  ]);
+  if (!reserve) return { user: 0n, total: 0n };
+  if (apr.side === 'supply') {
+    return {
+      user: userReserve?.scaledATokenBalance ?? 0n,
+      total:
+        reserve.liquidityIndex > 0n
+          ? rayDiv(reserve.totalATokenSupply, reserve.liquidityIndex)
+          : 0n,
+    };
+  }
+  if (apr.side === 'borrow') {
+    return {
+      user: userReserve?.scaledVariableDebt ?? 0n,
+      total: reserve.totalScaledVariableDebt,
+    };
+  }
+  if (apr.side === 'stableBorrow') {
+    return {
+      user: userReserve?.principalStableDebt ?? 0n,
+      total: reserve.totalPrincipalStableDebt,
+    };
+  }
+  return { user: 0n, total: 0n };
+}
+
+/**
+ * Recomputes `pending` the way RewardsController does: the asset index grows
+ * by emissionsPerSecond * elapsed * 10^decimals / totalScaledSupply until
+ * distributionEnd, and the user earns scaledBalance * (index - userIndex).
+ */
+async function withProjection(
+  context: handlerContext,
+  row: UserRewardBalance,
+  timestamp: number
+): Promise<UserRewardBalance> {
+  const [reward, balances] = await Promise.all([
+    context.Reward.get(row.reward_id),
+    getScaledBalances(context, row),
+  ]);
+  let pending = 0n;
+  if (reward && balances.user > 0n) {
+    const assetUnit = 10n ** reward.precision;
+    const elapsed = Math.min(timestamp, reward.distributionEnd) - reward.updatedAt;
+    const indexIncrease =
+      elapsed > 0 && balances.total > 0n
+        ? (reward.emissionsPerSecond * BigInt(elapsed) * assetUnit) / balances.total
+        : 0n;
+    const indexDelta = reward.index + indexIncrease - row.userIndex;
+    pending = indexDelta > 0n ? (balances.user * indexDelta) / assetUnit : 0n;
+  }
+  return {
+    ...row,
+    scaledBalance: balances.user,
+    pending,
+    unclaimed: row.accrued + pending,
+    projectedAt: timestamp,
+    updatedAt: timestamp,
+  };
+}
+
+/**
+ * Adds an Accrued amount to the user's (asset, reward) balance, moves its
+ * userIndex to the controller's and remembers the emitting log so a claim in
+ * the same transaction can tell which pairs it settled.
+ */
+export async function recordUserRewardAccrued(
+  context: handlerContext,
+  params: {
+    rewardsController: string;
+    asset: string;
+    rewardToken: string;
+    user: string;
+    userIndex: bigint;
+    amount: bigint;
+    txHash: string;
+    logIndex: number;
+    timestamp: number;
+  }
+): Promise<void> {
+  const row = await getOrInitUserRewardBalance(context, params, params.timestamp);
+  context.UserRewardBalance.set(
+    await withProjection(
+      context,
+      {
+        ...row,
+        userIndex: params.userIndex,
+        accrued: row.accrued + params.amount,
+        lastAccruedTxHash: params.txHash,
+        lastAccruedLogIndex: params.logIndex,
+      },
+      params.timestamp
+    )
+  );
+}
+
+function accruedInClaimTx(row: UserRewardBalance, txHash: string, logIndex: number): boolean {
+  return (
+    row.lastAccruedTxHash === txHash &&
+    row.lastAccruedLogIndex !== undefined &&
+    row.lastAccruedLogIndex < logIndex
+  );
+}
+
+/**
+ * Drains a RewardsClaimed amount from the user's accrued balances of
+ * `rewardToken` and re-projects each pair. RewardsClaimed carries no asset, so
+ * the pairs whose Accrued was emitted earlier in the same transaction are
+ * drained first, in log order as the controller settles them; any remainder
+ * (pairs whose index was already current) falls back to the controller's
+ * asset list order, as claimAllRewards walks it.
+ */
+export async function recordUserRewardClaimed(
+  context: handlerContext,
+  params: {
+    rewardsController: string;
+    rewardToken: string;
+    user: string;
+    amount: bigint;
+    txHash: string;
+    logIndex: number;
+    timestamp: number;
+  }
+): Promise<void> {
+  const candidates = (await context.UserRewardBalance.getWhere.user.eq(params.user)).filter(
+    row =>
+      row.rewardsController === params.rewardsController && row.rewardToken === params.rewardToken
+  );
+  const settled = candidates
+    .filter(row => accruedInClaimTx(row, params.txHash, params.logIndex))
+    .sort((a, b) => (a.lastAccruedLogIndex ?? 0) - (b.lastAccruedLogIndex ?? 0));
+  const listIndex = new Map<string, number>();
+  for (const row of candidates) {
+    const entry = await context.RewardsControllerAsset.get(`${row.rewardsController}-${row.asset}`);
+    listIndex.set(row.asset, entry?.listIndex ?? Number.MAX_SAFE_INTEGER);
+  }
+  const rest = candidates
+    .filter(row => !accruedInClaimTx(row, params.txHash, params.logIndex))
+    .sort((a, b) => (listIndex.get(a.asset) ?? 0) - (listIndex.get(b.asset) ?? 0));
+  const rows = [...settled, ...rest];
+
+  let remaining = params.amount;
+  for (const row of rows) {
+    const drained = row.accrued < remaining ? row.accrued : remaining;
+    remaining -= drained;
+    context.UserRewardBalance.set(
+      await withProjection(
+        context,
+        { ...row, accrued: row.accrued - drained, claimed: row.claimed + drained },
+        params.timestamp
+      )
+    );
+  }
+}
+
+/**
+ * Re-projects the UserRewardBalance rows of the next
+ * USER_REWARD_MAX_PROJECTIONS_PER_UPDATE holders of a reserve from the current
+ * asset index, so idle holders' pending keeps up with emissions. Holders come
+ * from the reserve's UserHealthHolder slots, walked by a rotating cursor.
+ */
+export async function reprojectReserveUserRewards(
+  context: handlerContext,
+  reserveId: string,
+  timestamp: number
+): Promise<void> {
+  const registry = await context.UserHealthHolderRegistry.get(reserveId);
+  const holderCount = registry?.holderCount ?? 0;
+  if (holderCount === 0) return;
+  const aprs = await context.RewardApr.getWhere.reserve_id.eq(reserveId);
+  if (aprs.length === 0) return;
+
+  const cursor = await context.UserRewardProjectionCursor.get(reserveId);
+  const startIndex = (cursor?.cursorIndex ?? 0) % holderCount;
+  const maxProjections = Math.min(holderCount, USER_REWARD_MAX_PROJECTIONS_PER_UPDATE);
+  for (let offset = 0; offset < maxProjections; offset += 1) {
+    const slot = (startIndex + offset) % holderCount;
+    const holder = await context.UserHealthHolder.get(`${reserveId}-${slot}`);
+    if (!holder) continue;
+    for (const apr of aprs) {
+      const row = await context.UserRewardBalance.get(
+        `${apr.rewardsController}:${apr.asset}:${apr.reward}:${holder.user_id}`
+      );
+      if (row) context.UserRewardBalance.set(await withProjection(context, row, timestamp));
+    }
+  }
+
+  context.UserRewardProjectionCursor.set({
+    id: reserveId,
+    cursorIndex: (startIndex + maxProjections) % holderCount,
+    lastSweepTimestamp:
+      startIndex + maxProjections >= holderCount
+        ? timestamp
+        : (cursor?.lastSweepTimestamp ?? timestamp),
+    lastUpdate: timestamp,
+  });
+}
@@ -0,0 +1,74 @@
+/**
+ * veDUST APR Helper
+ * Revenue APR per RevenueReward epoch from notified rewards, veDUST supply and DUST price
+ */
+
+import type { handlerContext, VeDustAprSnapshot } from '../../generated';
+import { getDustPriceUSD, getTokenPriceUSD, resolveTokenDecimals } from '../handlers/shared';
+import { toDecimal } from './math';
+import { getVeDustSupplyAt } from './veDustSupply';
+
+const DUST_DECIMALS = 18;
+const EPOCHS_PER_YEAR = 365 / 7;
+
+/**
+ * USD value of a RevenueReward notification at the reward token's current price.
+ */
+export async function getRevenueRewardUsd(
+  context: handlerContext,
+  rewardToken: string,
+  amount: bigint,
+  timestamp: number
+): Promise<number> {
+  const [decimals, priceUsd] = await Promise.all([
+    resolveTokenDecimals(context, rewardToken),
+    getTokenPriceUSD(context, rewardToken, timestamp),
+  ]);
+  return toDecimal(amount, decimals) * priceUsd;
+}
+
+/**
+ * Adds a notification worth `amountUsd` to its epoch's VeDustAprSnapshot and
+ * recomputes the APRs against the current veDUST supply and DUST price.
+ */
+export async function recordVeDustAprSnapshot(
+  context: handlerContext,
+  epoch: number,
+  amountUsd: number,
+  timestamp: number
+): Promise<void> {
+  const id = epoch.toString();
+  const [existing, supply, dustPriceUsd] = await Promise.all([
+    context.VeDustAprSnapshot.get(id),
+    getVeDustSupplyAt(context, timestamp),
+    getDustPriceUSD(context),
+  ]);
+  const base: VeDustAprSnapshot = existing ?? {
+    id,
+    epoch,
+    rewardUsd: 0,
+    notificationCount: 0,
+    totalLockedDust: 0n,
+    totalVotingPower: 0n,
+    dustPriceUsd: 0,
+    maxLockApr: 0,
+    averageLockApr: 0,
+    updatedAt: timestamp,
+  };
+  const rewardUsd = base.rewardUsd + amountUsd;
+  const yearlyRewardUsd = rewardUsd * EPOCHS_PER_YEAR;
+  const votingPowerUsd = toDecimal(supply.totalVotingPower, DUST_DECIMALS) * dustPriceUsd;
+  const lockedUsd = toDecimal(supply.lockedAmount, DUST_DECIMALS) * dustPriceUsd;
+
+  context.VeDustAprSnapshot.set({
+    ...base,
+    rewardUsd,
+    notificationCount: base.notificationCount + 1,
+    totalLockedDust: supply.lockedAmount,
+    totalVotingPower: supply.totalVotingPower,
+    dustPriceUsd,
+    maxLockApr: votingPowerUsd > 0 ? yearlyRewardUsd / votingPowerUsd : 0,
+    averageLockApr: lockedUsd > 0 ? yearlyRewardUsd / lockedUsd : 0,
+    updatedAt: timestamp,
+  });
+}
@@ -0,0 +1,184 @@
+/**
+ * veDUST Global Supply Helper
+ * Curve-style global bias/slope checkpoints with scheduled slope changes
+ */
+
+import type { handlerContext, VeDustGlobalState } from '../../generated';
+import { MAX_LOCK_TIME, SECONDS_PER_WEEK } from './constants';
+
+const GLOBAL_ID = 'global';
+
+export type VeDustLockShape = {
+  lockedAmount: bigint;
+  end: number;
+  isPermanent: boolean;
+};
+
+type SupplyTotals = Pick<VeDustGlobalState, 'slope' | 'endWeightedLocked' | 'permanentLocked'>;
+
+function decayingVotingPower(totals: SupplyTotals, timestamp: number): bigint {
+  const bias = totals.endWeightedLocked - BigInt(timestamp) * totals.slope;
+  return bias > 0n ? bias / MAX_LOCK_TIME : 0n;
+}
+
+/**
+ * Drops every lock that expired in (from, to] from the running totals, walking
+ * the scheduled slope changes week by week. With `recordWeeks`, the total
+ * voting power at each week boundary crossed is stored as a VeDustWeekSupply.
+ */
+async function applySlopeChanges<T extends SupplyTotals>(
+  context: handlerContext,
+  totals: T,
+  from: number,
+  to: number,
+  recordWeeks = false
+): Promise<T> {
+  if (to <= from) return totals;
+  let next = totals;
+  const lastWeek = Math.floor(to / SECONDS_PER_WEEK);
+  for (let week = Math.floor(from / SECONDS_PER_WEEK); week <= lastWeek; week++) {
+    const weekStart = week * SECONDS_PER_WEEK;
+    // Locks ending exactly at the boundary have no voting power left there, so
+    // the snapshot can be taken before this week's changes are applied.
+    if (recordWeeks && weekStart > from && weekStart <= to) {
+      context.VeDustWeekSupply.set({
+        id: weekStart.toString(),
+        weekStart,
+        totalVotingPower: decayingVotingPower(next, weekStart) + next.permanentLocked,
+      });
+    }
+    const changes = await context.VeDustSlopeChange.getWhere.week.eq(week);
+    for (const change of changes) {
+      if (change.end <= from || change.end > to || change.amount === 0n) continue;
+      next = {
+        ...next,
+        slope: next.slope - change.amount,
+        endWeightedLocked: next.endWeightedLocked - change.amount * BigInt(change.end),
+      };
+    }
+  }
+  return next;
+}
+
+async function scheduleSlopeChange(context: handlerContext, end: number, delta: bigint) {
+  const id = end.toString();
+  const existing = await context.VeDustSlopeChange.get(id);
+  context.VeDustSlopeChange.set({
+    id,
+    end,
+    week: Math.floor(end / SECONDS_PER_WEEK),
+    amount: (existing?.amount ?? 0n) + delta,
+  });
+}
+
+/**
+ * Replaces one veNFT's contribution (`previous` -> `next`) in the global
+ * veDUST supply and writes a VeDustCheckpoint for the event. Locks that have
+ * already expired contribute nothing and were removed by their slope change.
+ */
+export async function checkpointVeDustSupply(
+  context: handlerContext,
+  previous: VeDustLockShape,
+  next: VeDustLockShape,
+  event: { txHash: string; logIndex: number; timestamp: number; blockNumber: bigint }
+): Promise<void> {
+  const { timestamp } = event;
+  const existing = await context.VeDustGlobalState.get(GLOBAL_ID);
+  const base: VeDustGlobalState = existing ?? {
+    id: GLOBAL_ID,
+    slope: 0n,
+    endWeightedLocked: 0n,
+    permanentLocked: 0n,
+    lastCheckpointAt: timestamp,
+    lastBlockNumber: event.blockNumber,
+    checkpointCount: 0,
+  };
+  let state = await applySlopeChanges(context, base, base.lastCheckpointAt, timestamp, true);
+
+  if (previous.isPermanent) {
+    state = { ...state, permanentLocked: state.permanentLocked - previous.lockedAmount };
+  } else if (previous.lockedAmount > 0n && previous.end > timestamp) {
+    state = {
+      ...state,
+      slope: state.slope - previous.lockedAmount,
+      endWeightedLocked: state.endWeightedLocked - previous.lockedAmount * BigInt(previous.end),
+    };
+    await scheduleSlopeChange(context, previous.end, -previous.lockedAmount);
+  }
+
+  if (next.isPermanent) {
+    state = { ...state, permanentLocked: state.permanentLocked + next.lockedAmount };
+  } else if (next.lockedAmount > 0n && next.end > timestamp) {
+    state = {
+      ...state,
+      slope: state.slope + next.lockedAmount,
+      endWeightedLocked: state.endWeightedLocked + next.lockedAmount * BigInt(next.end),
+    };
+    await scheduleSlopeChange(context, next.end, next.lockedAmount);
+  }
+
+  context.VeDustGlobalState.set({
+    ...state,
+    lastCheckpointAt: timestamp,
+    lastBlockNumber: event.blockNumber,
+    checkpointCount: state.checkpointCount + 1,
+  });
+
+  const bias = decayingVotingPower(state, timestamp);
+  context.VeDustCheckpoint.set({
+    id: `${event.txHash}-${event.logIndex}`,
+    timestamp,
+    blockNumber: event.blockNumber,
+    txHash: event.txHash,
+    slope: state.slope,
+    endWeightedLocked: state.endWeightedLocked,
+    permanentLocked: state.permanentLocked,
+    bias,
+    totalVotingPower: bias + state.permanentLocked,
+  });
+}
+
+/**
+ * DUST in unexpired or permanent locks and total veDUST voting power at
+ * `timestamp`, which must not precede the latest checkpoint.
+ */
+export async function getVeDustSupplyAt(
+  context: handlerContext,
+  timestamp: number
+): Promise<{ lockedAmount: bigint; totalVotingPower: bigint }> {
+  const state = await context.VeDustGlobalState.get(GLOBAL_ID);
+  if (!state) return { lockedAmount: 0n, totalVotingPower: 0n };
+  const totals = await applySlopeChanges(context, state, state.lastCheckpointAt, timestamp);
+  return {
+    lockedAmount: totals.slope + totals.permanentLocked,
+    totalVotingPower: decayingVotingPower(totals, timestamp) + totals.permanentLocked,
+  };
+}
+
+/**
+ * Total veDUST voting power at `timestamp`, which must not precede the latest
+ * checkpoint.
+ */
+export async function getTotalVotingPowerAt(
+  context: handlerContext,
+  timestamp: number
+): Promise<bigint> {
+  const supply = await getVeDustSupplyAt(context, timestamp);
+  return supply.totalVotingPower;
+}
+
+/**
+ * Total veDUST voting power at a week boundary: the VeDustWeekSupply snapshot
+ * once a checkpoint has crossed it, otherwise projected from the latest state.
+ */
+export async function getTotalVotingPowerAtWeek(
+  context: handlerContext,
+  weekStart: number
+): Promise<bigint> {
+  const snapshot = await context.VeDustWeekSupply.get(weekStart.toString());
+  if (snapshot) return snapshot.totalVotingPower;
+  const state = await context.VeDustGlobalState.get(GLOBAL_ID);
+  // No checkpoint crossed the boundary, so nothing was locked before it.
+  if (!state || weekStart < state.lastCheckpointAt) return 0n;
+  return getTotalVotingPowerAt(context, weekStart);
+}
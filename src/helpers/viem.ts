@@ -4,6 +4,8 @@
  */
 
 import { createPublicClient, http, type Address, defineChain } from 'viem';
+import DefaultReserveInterestRateStrategyAbi from '../../abis/lending/DefaultReserveInterestRateStrategy.json';
+import DefaultReserveInterestRateStrategyV2Abi from '../../abis/lending/DefaultReserveInterestRateStrategyV2.json';
 
 // Define Monad chain
 export const monadChain = defineChain({
@@ -528,3 +530,71 @@ export async function readPoolFee(
     return null;
   }
 }
+
+// Interest rate strategy reads: V2 per-reserve data, else the V1 getters
+const INTEREST_RATE_STRATEGY_V2_ABI = DefaultReserveInterestRateStrategyV2Abi;
+const INTEREST_RATE_STRATEGY_V1_ABI = DefaultReserveInterestRateStrategyAbi.abi;
+
+export interface InterestRateCurve {
+  optimalUsageRatio: bigint;
+  baseVariableBorrowRate: bigint;
+  variableRateSlope1: bigint;
+  variableRateSlope2: bigint;
+}
+
+/**
+ * Read an interest rate strategy's curve for a reserve in ray units, the unit
+ * stored for RateDataUpdate curves. Tries the V2 getInterestRateData(reserve)
+ * and falls back to the V1 per-strategy getters; returns null when neither
+ * answers.
+ */
+export async function readInterestRateCurve(
+  strategy: string,
+  reserve: string,
+  blockNumber?: bigint,
+  log?: LoggerLike
+): Promise<InterestRateCurve | null> {
+  const address = strategy as Address;
+  try {
+    const data = (await publicClient.readContract({
+      address,
+      abi: INTEREST_RATE_STRATEGY_V2_ABI,
+      functionName: 'getInterestRateData',
+      args: [reserve as Address],
+      blockNumber,
+    })) as InterestRateCurve;
+    return {
+      optimalUsageRatio: data.optimalUsageRatio,
+      baseVariableBorrowRate: data.baseVariableBorrowRate,
+      variableRateSlope1: data.variableRateSlope1,
+      variableRateSlope2: data.variableRateSlope2,
+    };
+  } catch {
+    // Not a V2 strategy; try the V1 getters below.
+  }
+  try {
+    const read = async (functionName: string) =>
+      (await publicClient.readContract({
+        address,
+        abi: INTEREST_RATE_STRATEGY_V1_ABI,
+        functionName,
+        blockNumber,
+      })) as bigint;
+    const [optimalUsageRatio, baseVariableBorrowRate, variableRateSlope1, variableRateSlope2] =
+      await Promise.all([
+        read('OPTIMAL_USAGE_RATIO'),
+        read('getBaseVariableBorrowRate'),
+        read('getVariableRateSlope1'),
+        read('getVariableRateSlope2'),
+      ]);
+    return { optimalUsageRatio, baseVariableBorrowRate, variableRateSlope1, variableRateSlope2 };
+  } catch (error) {
+    if (log?.error) {
+      const blockLabel = blockNumber ? blockNumber.toString() : 'latest';
+      log.error(
+        `[config] eth_call interest rate curve failed strategy=${strategy} reserve=${reserve} block=${blockLabel} error=${formatError(error)}`
+      );
+    }
+    return null;
+  }
+}